@@ -0,0 +1,111 @@
+/* Connections Playground service worker: offline app shell + puzzle files.
+ *
+ * - App shell (index.html + the built JS/CSS it references) is precached on
+ *   install. Navigations are network-first so a new deploy is picked up as
+ *   soon as we're online; hashed /assets/ files are cache-first.
+ * - nyt/*.json is network-first; every successful response is kept in the
+ *   puzzle cache so any puzzle opened once keeps working offline.
+ *
+ * Cache names must match src/offline/cache.ts.
+ */
+
+const SHELL_CACHE = "cp-shell-v1";
+const PUZZLE_CACHE = "cp-puzzles-v1";
+const KEEP = [SHELL_CACHE, PUZZLE_CACHE];
+
+const scopeUrl = new URL(self.registration.scope);
+const INDEX_URL = new URL("index.html", scopeUrl).href;
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const res = await fetch(INDEX_URL, { cache: "no-store" });
+  if (!res.ok) return;
+  const html = await res.clone().text();
+  await cache.put(INDEX_URL, res);
+
+  // Everything index.html pulls in from our own origin (built JS/CSS, icons).
+  const urls = new Set([new URL("manifest.webmanifest", scopeUrl).href]);
+  for (const m of html.matchAll(/(?:src|href)="([^"]+)"/g)) {
+    const url = new URL(m[1], INDEX_URL);
+    if (url.origin === scopeUrl.origin) urls.add(url.href);
+  }
+  await Promise.all([...urls].map((u) => cache.add(u).catch(() => undefined)));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((n) => n.startsWith("cp-") && !KEEP.includes(n))
+            .map((n) => caches.delete(n)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(request, res.clone());
+    return res;
+  } catch (e) {
+    const cached =
+      (await cache.match(request, { ignoreSearch: true })) ||
+      (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  // Opaque (cross-origin image) responses are fine to keep too.
+  if (res.ok || res.type === "opaque") cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, INDEX_URL));
+    return;
+  }
+
+  // Image cards of opened puzzles
+  if (
+    url.hostname === "games-assets.storage.googleapis.com" &&
+    request.destination === "image"
+  ) {
+    event.respondWith(cacheFirst(request, PUZZLE_CACHE));
+    return;
+  }
+
+  if (url.origin !== scopeUrl.origin) return;
+
+  if (url.pathname.includes("/nyt/") && url.pathname.endsWith(".json")) {
+    event.respondWith(networkFirst(request, PUZZLE_CACHE));
+    return;
+  }
+
+  if (url.pathname.includes("/assets/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  event.respondWith(networkFirst(request, SHELL_CACHE));
+});
@@ -1,9 +1,47 @@
 import fs from "node:fs";
 import path from "node:path";
 import { execSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { parseArgs } from "node:util";
+import {
+  NYT_SOURCE_URL,
+  createHttpSource,
+  startFixtureServer,
+} from "./puzzle-source.mjs";
 
 const TZ = "America/New_York";
-const OUT_DIR = path.join(process.cwd(), "public", "nyt");
+// Replaced by --out before anything is read or written.
+let OUT_DIR = path.join(process.cwd(), "public", "nyt");
+
+// Connections #1; nothing is published before it.
+const FIRST_PRINT_DATE = "2023-06-12";
+
+// Default window around today (NY time) when no range is given.
+const DEFAULT_FROM = -2;
+const DEFAULT_TO = 30; // ✅ up to 30 days ahead
+
+const USAGE = `Usage: node scripts/fetch-connections-range.mjs [options]
+
+  --from <date|offset>  first print date (YYYY-MM-DD) or days from today (default ${DEFAULT_FROM})
+  --to <date|offset>    last print date or days from today (default ${DEFAULT_TO})
+  --verify              check public/nyt/ instead of fetching; exits 1 on problems
+                        (range defaults to ${FIRST_PRINT_DATE}..today)
+  --dry-run             fetch and write files, but skip the --on-change command
+  --out <dir>           where puzzle files are written (default public/nyt)
+
+  --source <url>        puzzle URL with {date} for the print date
+                        (default $PUZZLE_SOURCE_URL or ${NYT_SOURCE_URL})
+  --fixtures <dir>      serve <dir>/<date>.json from a local server instead;
+                        <date>.status (e.g. 503) forces an error response
+  --delay <ms>          minimum time between requests (default 250)
+  --retries <n>         retries for 429/5xx and network errors, with
+                        exponential backoff (default 3)
+  --on-change <cmd>     run after files changed (default $REDEPLOY_COMMAND or
+                        "npm run deploy"; nothing with --fixtures; "" for nothing)
+
+  --help                show this message
+
+Negative offsets need an equals sign: --from=-7`;
 
 function fmtYYYYMMDD(date, timeZone = TZ) {
   const parts = new Intl.DateTimeFormat("en-CA", {
@@ -30,6 +68,109 @@ function parseYYYYMMDDToUtcMidnight(s) {
   return new Date(Date.UTC(yy, mm - 1, dd));
 }
 
+function daysBetween(fromYmd, toYmd) {
+  return Math.round(
+    (parseYYYYMMDDToUtcMidnight(toYmd) - parseYYYYMMDDToUtcMidnight(fromYmd)) /
+      86_400_000,
+  );
+}
+
+/** Inclusive list of YYYY-MM-DD from..to. */
+function datesInRange(fromYmd, toYmd) {
+  const out = [];
+  const start = parseYYYYMMDDToUtcMidnight(fromYmd);
+  for (let off = 0; off <= daysBetween(fromYmd, toYmd); off++) {
+    out.push(fmtYYYYMMDD(addDaysUtc(start, off), "UTC"));
+  }
+  return out;
+}
+
+/** "2024-01-31" as-is, or an integer offset from the anchor day. */
+function resolveRangeArg(name, value, anchorNy) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const utc = parseYYYYMMDDToUtcMidnight(value);
+    if (fmtYYYYMMDD(utc, "UTC") === value) return value;
+  } else if (/^[+-]?\d+$/.test(value)) {
+    const d = addDaysUtc(parseYYYYMMDDToUtcMidnight(anchorNy), Number(value));
+    return fmtYYYYMMDD(d, "UTC");
+  }
+  throw new Error(
+    `--${name} must be a date (YYYY-MM-DD) or a day offset, got "${value}"`,
+  );
+}
+
+function parseCli(argv, anchorNy) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      verify: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      out: { type: "string" },
+      source: { type: "string" },
+      fixtures: { type: "string" },
+      delay: { type: "string", default: "250" },
+      retries: { type: "string", default: "3" },
+      "on-change": { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+    strict: true,
+  });
+
+  const defaultFrom = values.verify ? FIRST_PRINT_DATE : String(DEFAULT_FROM);
+  const defaultTo = values.verify ? "0" : String(DEFAULT_TO);
+  const fromDate = resolveRangeArg(
+    "from",
+    values.from ?? defaultFrom,
+    anchorNy,
+  );
+  const toDate = resolveRangeArg("to", values.to ?? defaultTo, anchorNy);
+  if (fromDate > toDate) {
+    throw new Error(`--from (${fromDate}) is after --to (${toDate})`);
+  }
+
+  const delayMs = Number(values.delay);
+  const retries = Number(values.retries);
+  if (!Number.isInteger(delayMs) || delayMs < 0) {
+    throw new Error(
+      `--delay must be a whole number of ms, got "${values.delay}"`,
+    );
+  }
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(
+      `--retries must be a whole number, got "${values.retries}"`,
+    );
+  }
+  if (values.source && values.fixtures) {
+    throw new Error("--source and --fixtures can't be used together");
+  }
+
+  return {
+    fromDate,
+    toDate,
+    verify: values.verify,
+    dryRun: values["dry-run"],
+    help: values.help,
+    outDir: values.out ? path.resolve(values.out) : null,
+    sourceUrl: values.source ?? process.env.PUZZLE_SOURCE_URL ?? NYT_SOURCE_URL,
+    fixturesDir: values.fixtures ? path.resolve(values.fixtures) : null,
+    delayMs,
+    retries,
+    // Fixture runs never deploy unless asked to.
+    onChange:
+      values["on-change"] ??
+      (values.fixtures
+        ? ""
+        : (process.env.REDEPLOY_COMMAND ?? "npm run deploy")),
+    // index.json describes the window around today; a backfill by absolute
+    // dates leaves it alone.
+    writeIndex: [values.from, values.to].every(
+      (v) => v === undefined || !/^\d{4}-/.test(v),
+    ),
+  };
+}
+
 function safeReadJson(filePath) {
   try {
     const raw = fs.readFileSync(filePath, "utf-8");
@@ -102,12 +243,19 @@ function ensureGitIdentityForCi() {
   }
 }
 
-async function fetchOne(printDate) {
-  const url = `https://www.nytimes.com/svc/connections/v2/${printDate}.json`;
-
-  const res = await fetch(url, {
-    headers: { "User-Agent": "connections-playground (personal use)" },
-  });
+async function fetchOne(source, printDate) {
+  let res;
+  try {
+    res = await source.fetch(printDate);
+  } catch (err) {
+    // Retries are exhausted; record it and carry on with the other dates.
+    return {
+      ok: false,
+      printDate,
+      status: "NETWORK",
+      statusText: err.cause?.code ?? err.message,
+    };
+  }
 
   if (!res.ok) {
     // Don’t fail the whole run; future dates may 404 until published.
@@ -184,6 +332,90 @@ function listAvailableDatesFromDisk() {
   return dates.sort();
 }
 
+function cardText(card) {
+  const text =
+    typeof card?.content === "string" ? card.content : card?.image_alt_text;
+  return typeof text === "string" ? text.trim().toUpperCase() : "";
+}
+
+// Whole-archive catalog, so the client can browse/search/analyze without
+// downloading every dated file. Words are grouped like titles (yellow..purple);
+// hash is of the file as served, so a re-published puzzle is noticed.
+//   { version, timezone, puzzles: [{ id, print_date, editor, titles, words, imageCards, hash }] }
+function buildCatalog(availableDates) {
+  const puzzles = [];
+
+  for (const printDate of availableDates) {
+    const raw = readFileIfExists(path.join(OUT_DIR, `${printDate}.json`));
+    let data;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(data?.categories)) continue;
+
+    const cards = data.categories.flatMap((c) => c?.cards ?? []);
+    puzzles.push({
+      id: data.id,
+      print_date: printDate,
+      editor: typeof data.editor === "string" ? data.editor : "",
+      titles: data.categories.map((c) => String(c?.title ?? "")),
+      words: data.categories.map((c) => (c?.cards ?? []).map(cardText)),
+      imageCards: cards.filter((c) => typeof c?.image_url === "string").length,
+      hash: createHash("sha256").update(raw).digest("hex").slice(0, 16),
+    });
+  }
+
+  return { version: 2, timezone: TZ, puzzles };
+}
+
+/**
+ * Check the dated files in public/nyt/ for the range: missing dates (up to
+ * today), print_date/filename mismatches, non-OK status and duplicate ids.
+ * Returns one line per problem.
+ */
+function verifyArchive(fromDate, toDate, anchorNy) {
+  const problems = [];
+  const datesById = new Map();
+
+  for (const printDate of datesInRange(fromDate, toDate)) {
+    const filePath = path.join(OUT_DIR, `${printDate}.json`);
+    if (!fs.existsSync(filePath)) {
+      // Future puzzles show up whenever NYT publishes them.
+      if (printDate <= anchorNy) problems.push(`MISSING   ${printDate}`);
+      continue;
+    }
+
+    const data = safeReadJson(filePath);
+    if (!data) {
+      problems.push(`BAD_JSON  ${printDate}.json`);
+      continue;
+    }
+    if (data.status !== "OK") {
+      problems.push(`NOT_OK    ${printDate}.json (status ${data.status})`);
+    }
+    if (data.print_date !== printDate) {
+      problems.push(
+        `MISMATCH  ${printDate}.json has print_date ${data.print_date}`,
+      );
+    }
+    if (data.id !== undefined) {
+      const dates = datesById.get(data.id) ?? [];
+      dates.push(printDate);
+      datesById.set(data.id, dates);
+    }
+  }
+
+  for (const [id, dates] of datesById) {
+    if (dates.length > 1) {
+      problems.push(`DUPLICATE id ${id} in ${dates.join(", ")}`);
+    }
+  }
+
+  return problems;
+}
+
 const refetchCloseToCurrentInCaseChanged = (offset) => {
   if (offset >= -1 && offset <= 1) {
     return true;
@@ -191,18 +423,77 @@ const refetchCloseToCurrentInCaseChanged = (offset) => {
   return false;
 };
 
+function runPostFetchAction(command, { filesChanged, dryRun }) {
+  if (!filesChanged) {
+    console.log("Skipping post-fetch command because no files changed.");
+  } else if (!command) {
+    console.log("No post-fetch command configured.");
+  } else if (dryRun) {
+    console.log(`Dry run: not running post-fetch command: ${command}`);
+  } else {
+    ensureGitIdentityForCi();
+    console.log(`Running post-fetch command: ${command}`);
+    execSync(command, { stdio: "inherit" });
+  }
+}
+
 async function main() {
-  const redeployCommand = process.env.REDEPLOY_COMMAND ?? "npm run deploy";
+  // Determine “today” in NY time, then use that as the anchor for the range.
+  const anchorNy = fmtYYYYMMDD(new Date(), TZ);
 
+  let cli;
+  try {
+    cli = parseCli(process.argv.slice(2), anchorNy);
+  } catch (err) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (cli.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (cli.outDir) OUT_DIR = cli.outDir;
+
+  if (cli.verify) {
+    const problems = verifyArchive(cli.fromDate, cli.toDate, anchorNy);
+    for (const line of problems) console.log(line);
+    console.log(
+      `Verified ${cli.fromDate}..${cli.toDate}: ${
+        problems.length === 0
+          ? "no problems"
+          : `${problems.length} problem${problems.length === 1 ? "" : "s"}`
+      }.`,
+    );
+    if (problems.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  const fixtures = cli.fixturesDir
+    ? await startFixtureServer(cli.fixturesDir)
+    : null;
+  const source = createHttpSource({
+    urlTemplate: fixtures?.urlTemplate ?? cli.sourceUrl,
+    minIntervalMs: fixtures ? 0 : cli.delayMs,
+    retries: cli.retries,
+  });
+  console.log(
+    `Source: ${fixtures ? `fixtures in ${cli.fixturesDir}` : source.name}`,
+  );
+
+  try {
+    await fetchRange(cli, anchorNy, source);
+  } finally {
+    await fixtures?.close();
+  }
+}
+
+async function fetchRange(cli, anchorNy, source) {
   fs.mkdirSync(OUT_DIR, { recursive: true });
   let filesChanged = false;
 
-  // Determine “today” in NY time, then use that as the anchor for the range.
-  const anchorNy = fmtYYYYMMDD(new Date(), TZ);
-  const anchorUtc = parseYYYYMMDDToUtcMidnight(anchorNy);
-
-  const FROM = -2;
-  const TO = 30; // ✅ up to 30 days ahead
+  const FROM = daysBetween(anchorNy, cli.fromDate);
+  const TO = daysBetween(anchorNy, cli.toDate);
 
   const index = {
     timezone: TZ,
@@ -211,9 +502,8 @@ async function main() {
     available: {}, // date -> result
   };
 
-  for (let off = FROM; off <= TO; off++) {
-    const d = addDaysUtc(anchorUtc, off);
-    const printDate = fmtYYYYMMDD(d, "UTC"); // already anchored; UTC format is stable
+  for (const printDate of datesInRange(cli.fromDate, cli.toDate)) {
+    const off = daysBetween(anchorNy, printDate);
 
     // ✅ Skip network if file already exists
     const existing = resultFromExistingFile(printDate);
@@ -225,7 +515,7 @@ async function main() {
 
     // If the file exists but is bad, you can choose to refetch.
     // We'll refetch in that case.
-    const result = await fetchOne(printDate);
+    const result = await fetchOne(source, printDate);
     if (result.ok && result.changed) {
       filesChanged = true;
     }
@@ -239,7 +529,10 @@ async function main() {
   }
 
   // Write index.json
-  if (writeJsonIfChanged(path.join(OUT_DIR, "index.json"), index)) {
+  if (
+    cli.writeIndex &&
+    writeJsonIfChanged(path.join(OUT_DIR, "index.json"), index)
+  ) {
     filesChanged = true;
   }
 
@@ -256,7 +549,11 @@ async function main() {
     }
   }
 
-  console.log("Done. Anchor:", anchorNy, `Range: ${FROM}..${TO}`);
+  console.log(
+    "Done. Anchor:",
+    anchorNy,
+    `Range: ${FROM}..${TO} (${cli.fromDate}..${cli.toDate})`,
+  );
 
   // -------------------------------
   // Write available-dates.json
@@ -279,15 +576,19 @@ async function main() {
     filesChanged = true;
   }
 
+  if (
+    writeJsonIfChanged(
+      path.join(OUT_DIR, "catalog.json"),
+      buildCatalog(availableDates),
+    )
+  ) {
+    console.log("catalog.json updated");
+    filesChanged = true;
+  }
+
   console.log(filesChanged ? "Changes detected." : "No changes detected.");
 
-  if (filesChanged) {
-    ensureGitIdentityForCi();
-    console.log(`Running redeploy command: ${redeployCommand}`);
-    execSync(redeployCommand, { stdio: "inherit" });
-  } else {
-    console.log("Skipping redeploy because no files changed.");
-  }
+  runPostFetchAction(cli.onChange, { filesChanged, dryRun: cli.dryRun });
 }
 
 main().catch((err) => {
@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+
+// Where puzzles come from by default; {date} is the print date (YYYY-MM-DD).
+export const NYT_SOURCE_URL =
+  "https://www.nytimes.com/svc/connections/v2/{date}.json";
+
+const USER_AGENT = "connections-playground (personal use)";
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readTextIfExists(filePath) {
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+function isRetryableStatus(status) {
+  return status === 429 || status >= 500;
+}
+
+function retryAfterMs(res) {
+  const value = res.headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/**
+ * A puzzle source over HTTP. `fetch(printDate)` resolves to the final
+ * Response (any status) or rejects if the network keeps failing.
+ *
+ * Requests are spaced at least `minIntervalMs` apart. 429/5xx responses and
+ * network errors are retried up to `retries` times, waiting Retry-After when
+ * the server sends one and `backoffMs`, 2×, 4×… otherwise.
+ */
+export function createHttpSource({
+  urlTemplate = NYT_SOURCE_URL,
+  minIntervalMs = 250,
+  retries = 3,
+  backoffMs = 1000,
+} = {}) {
+  let nextSlot = 0;
+
+  const throttle = async () => {
+    const now = Date.now();
+    const wait = nextSlot - now;
+    nextSlot = Math.max(now, nextSlot) + minIntervalMs;
+    if (wait > 0) await sleep(wait);
+  };
+
+  return {
+    name: urlTemplate,
+    async fetch(printDate) {
+      const url = urlTemplate.replaceAll("{date}", printDate);
+
+      for (let attempt = 0; ; attempt++) {
+        await throttle();
+        const backoff = backoffMs * 2 ** attempt;
+
+        let res;
+        try {
+          res = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+        } catch (err) {
+          if (attempt >= retries) throw err;
+          console.log(`RETRY ${printDate} (${err.message}) in ${backoff}ms`);
+          await sleep(backoff);
+          continue;
+        }
+
+        if (!isRetryableStatus(res.status) || attempt >= retries) return res;
+
+        const wait = retryAfterMs(res) ?? backoff;
+        console.log(`RETRY ${printDate} (${res.status}) in ${wait}ms`);
+        await res.body?.cancel();
+        await sleep(wait);
+      }
+    },
+  };
+}
+
+/**
+ * Serve `<dir>/<print date>.json` on 127.0.0.1 so the whole pipeline can run
+ * without the network. Missing files are 404s, like unpublished dates. A
+ * `<print date>.status` file (e.g. "503") answers with that status instead,
+ * for exercising retries. Resolves to { urlTemplate, close }.
+ */
+export async function startFixtureServer(dir) {
+  if (!fs.statSync(dir, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`Fixture directory not found: ${dir}`);
+  }
+
+  const server = http.createServer((req, res) => {
+    const m = /^\/(\d{4}-\d{2}-\d{2})\.json$/.exec(req.url ?? "");
+    if (!m) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const forced = readTextIfExists(path.join(dir, `${m[1]}.status`)).trim();
+    if (forced) {
+      res.writeHead(Number(forced) || 500).end();
+      return;
+    }
+
+    fs.readFile(path.join(dir, `${m[1]}.json`), (err, body) => {
+      if (err) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(body);
+    });
+  });
+
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address();
+
+  return {
+    urlTemplate: `http://127.0.0.1:${port}/{date}.json`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
@@ -1,49 +1,63 @@
-import { useEffect, useMemo, useState } from "react";
-import { getCookie, setCookie } from "./utils/persistence";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getSetting, setSetting } from "./utils/persistence";
 import { APP_VERSION } from "./version";
+import {
+  CUSTOM_PARAM,
+  fetchPuzzleForDate,
+  isYMD,
+  loadCustomPuzzle,
+  puzzleNumberToPrintDate,
+  type PuzzleRequest,
+} from "./puzzle";
 import "./App.css";
 
 import DragStyle from "./tabs/DragStyle";
 import ClickStyle from "./tabs/ClickStyle";
 import Solve from "./tabs/Solve";
+import Editor from "./tabs/Editor";
+import Archive from "./tabs/Archive";
+import StatsModal from "./components/StatsModal";
+import OfflineModal from "./components/OfflineModal";
+import { KEYBOARD_SHORTCUTS, useKeyboardShortcuts } from "./utils/keyboard";
 
-type TabKey = "drag" | "click" | "solve";
-
-function puzzleNumberToPrintDate(puzzleNumber: number): string | null {
-  if (!Number.isFinite(puzzleNumber) || puzzleNumber < 1) return null;
-  const epochUtc = Date.UTC(2023, 5, 12); // June 12, 2023 (Puzzle #1)
-  const targetUtc = epochUtc + (Math.floor(puzzleNumber) - 1) * 86_400_000;
-  const dt = new Date(targetUtc);
-  const y = dt.getUTCFullYear();
-  const m = String(dt.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(dt.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
+type TabKey = "drag" | "click" | "solve" | "editor" | "archive";
+
+function isTabKey(v: string | null): v is TabKey {
+  return (
+    v === "drag" ||
+    v === "click" ||
+    v === "solve" ||
+    v === "editor" ||
+    v === "archive"
+  );
 }
 
 function parseQueryParams(search: string): {
   mode: TabKey | null;
   date: string | null;
+  custom: string | null; // encoded editor puzzle
 } {
   const params = new URLSearchParams(search);
 
   const modeRaw = params.get("mode");
-  const mode: TabKey | null =
-    modeRaw === "drag" || modeRaw === "click" || modeRaw === "solve"
-      ? (modeRaw as TabKey)
-      : null;
+  const mode: TabKey | null = isTabKey(modeRaw) ? modeRaw : null;
+
+  // A custom puzzle link carries the whole puzzle; it wins over date/puzzle.
+  const custom = params.get(CUSTOM_PARAM);
+  if (custom) return { mode, date: null, custom };
 
   // puzzle takes precedence over date if both provided
   const puzzleRaw = params.get("puzzle");
   if (puzzleRaw) {
     const n = Number(puzzleRaw);
     const dateFromPuzzle = puzzleNumberToPrintDate(n);
-    if (dateFromPuzzle) return { mode, date: dateFromPuzzle };
+    if (dateFromPuzzle) return { mode, date: dateFromPuzzle, custom: null };
   }
 
   const dateRaw = params.get("date");
-  const date = dateRaw && /^\d{4}-\d{2}-\d{2}$/.test(dateRaw) ? dateRaw : null;
+  const date = isYMD(dateRaw) ? dateRaw : null;
 
-  return { mode, date };
+  return { mode, date, custom: null };
 }
 
 function getEffectiveSearch(): string {
@@ -91,6 +105,8 @@ export default function App() {
         { key: "drag" as const, label: "Drag Mode" },
         { key: "click" as const, label: "Click Mode" },
         { key: "solve" as const, label: "Solve!" },
+        { key: "editor" as const, label: "Editor" },
+        { key: "archive" as const, label: "Archive" },
       ] satisfies Array<{ key: TabKey; label: string }>,
     [],
   );
@@ -98,20 +114,13 @@ export default function App() {
   const [active, setActive] = useState<TabKey>(() => {
     // Read deep-link params synchronously so Solve doesn't do an initial "today" load
     // and then get overwritten by a slower request (race condition).
-    const { mode, date } = parseQueryParams(getEffectiveSearch());
+    const { mode, date, custom } = parseQueryParams(getEffectiveSearch());
     if (mode) return mode;
-    if (date) return "solve";
-
-    const fromCookie =
-      typeof document !== "undefined"
-        ? (getCookie("cp_active_tab") as TabKey | null)
-        : null;
-
-    return fromCookie === "drag" ||
-      fromCookie === "click" ||
-      fromCookie === "solve"
-      ? fromCookie
-      : "drag";
+    if (date || custom) return "solve";
+
+    const saved = getSetting("activeTab");
+
+    return isTabKey(saved) ? saved : "drag";
   });
 
   const [queryPrintDate, setQueryPrintDate] = useState<string | null>(() => {
@@ -119,16 +128,39 @@ export default function App() {
     return date;
   });
 
+  // Editor links are decoded once per distinct ?custom= value; every tab
+  // loads the resulting puzzle.
+  const [puzzleRequest, setPuzzleRequest] = useState<PuzzleRequest | null>(
+    null,
+  );
+  const customParamRef = useRef<string | null>(null);
+
   const [showHelp, setShowHelp] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showOffline, setShowOffline] = useState(false);
 
   // Query-param deep link support:
-  //   ?mode=solve|drag|click
+  //   ?mode=solve|drag|click|editor|archive
   //   ?puzzle={number}
   //   ?date=YYYY-MM-DD
-  // puzzle takes precedence over date when both provided
+  //   ?custom={encoded puzzle}
+  // custom takes precedence over puzzle, and puzzle over date
   useEffect(() => {
     const applyQuery = () => {
-      const { mode, date } = parseQueryParams(getEffectiveSearch());
+      const { mode, date, custom } = parseQueryParams(getEffectiveSearch());
+
+      if (custom) {
+        // Only a new link switches tabs; refocusing keeps the player's place.
+        if (customParamRef.current === custom) return;
+        customParamRef.current = custom;
+        setActive(mode ?? "solve");
+        setPuzzleRequest({
+          label: "custom puzzle",
+          puzzle: loadCustomPuzzle(custom),
+        });
+        return;
+      }
+      customParamRef.current = null;
 
       // Date/puzzle implies solve mode unless an explicit mode is provided
       if (date) {
@@ -139,7 +171,7 @@ export default function App() {
 
       setQueryPrintDate(null);
 
-      // If only mode provided, honor it; otherwise keep current/cookie-driven mode
+      // If only mode provided, honor it; otherwise keep current/saved mode
       if (mode) setActive(mode);
     };
 
@@ -163,22 +195,44 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    try {
-      setCookie("cp_active_tab", active);
-    } catch {
-      // ignore
-    }
+    setSetting("activeTab", active);
   }, [active]);
 
-  // ESC closes help modal
+  // ESC closes help + stats + offline modals
   useEffect(() => {
-    if (!showHelp) return;
+    if (!showHelp && !showStats && !showOffline) return;
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") setShowHelp(false);
+      if (e.key !== "Escape") return;
+      setShowHelp(false);
+      setShowStats(false);
+      setShowOffline(false);
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [showHelp]);
+  }, [showHelp, showStats, showOffline]);
+
+  // Editor "Play" buttons: same path as opening the link from outside.
+  const openPuzzleLink = (href: string) => {
+    window.history.pushState(null, "", href);
+    customParamRef.current = null; // reload even if it's the same puzzle
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  };
+
+  // Archive rows: every tab loads the date, and Solve comes to the front.
+  const openArchiveDate = (printDate: string) => {
+    setActive("solve");
+    setPuzzleRequest({
+      label: printDate,
+      puzzle: fetchPuzzleForDate(printDate),
+    });
+  };
+
+  // "?" opens help (and its shortcut sheet) from anywhere
+  useKeyboardShortcuts(true, (e) => {
+    if (e.key !== "?") return false;
+    setShowHelp(true);
+    return true;
+  });
 
   return (
     <div className="nytPage">
@@ -201,6 +255,46 @@ export default function App() {
           </div>
 
           <div className="nytTopbarRight">
+            <button
+              className="iconBtn"
+              aria-label="Stats"
+              title="Solve statistics"
+              type="button"
+              onClick={() => setShowStats(true)}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 18 18"
+                aria-hidden="true"
+                fill="currentColor"
+              >
+                <rect x="2" y="9" width="3" height="7" rx="1" />
+                <rect x="7.5" y="4" width="3" height="12" rx="1" />
+                <rect x="13" y="7" width="3" height="9" rx="1" />
+              </svg>
+            </button>
+            <button
+              className="iconBtn"
+              aria-label="Offline play"
+              title="Offline play"
+              type="button"
+              onClick={() => setShowOffline(true)}
+            >
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 18 18"
+                aria-hidden="true"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M9 2v9M5 7.5 9 11.5l4-4M3 15h12" />
+              </svg>
+            </button>
             <button
               className="iconBtn"
               aria-label="Help"
@@ -217,25 +311,54 @@ export default function App() {
           <div
             className={active === "drag" ? "nytTabPanel active" : "nytTabPanel"}
           >
-            <DragStyle initialPrintDate={queryPrintDate} />
+            <DragStyle
+              initialPrintDate={queryPrintDate}
+              puzzleRequest={puzzleRequest}
+              isActive={active === "drag"}
+            />
           </div>
           <div
             className={
               active === "click" ? "nytTabPanel active" : "nytTabPanel"
             }
           >
-            <ClickStyle initialPrintDate={queryPrintDate} />
+            <ClickStyle
+              initialPrintDate={queryPrintDate}
+              puzzleRequest={puzzleRequest}
+              isActive={active === "click"}
+            />
           </div>
           <div
             className={
               active === "solve" ? "nytTabPanel active" : "nytTabPanel"
             }
           >
-            <Solve initialPrintDate={queryPrintDate} />
+            <Solve
+              initialPrintDate={queryPrintDate}
+              puzzleRequest={puzzleRequest}
+              isActive={active === "solve"}
+            />
+          </div>
+          <div
+            className={
+              active === "editor" ? "nytTabPanel active" : "nytTabPanel"
+            }
+          >
+            <Editor onPlay={openPuzzleLink} />
+          </div>
+          <div
+            className={
+              active === "archive" ? "nytTabPanel active" : "nytTabPanel"
+            }
+          >
+            <Archive isActive={active === "archive"} onOpen={openArchiveDate} />
           </div>
         </div>
       </div>
 
+      {showStats && <StatsModal onClose={() => setShowStats(false)} />}
+      {showOffline && <OfflineModal onClose={() => setShowOffline(false)} />}
+
       {showHelp && (
         <div className="modalOverlay" onClick={() => setShowHelp(false)}>
           <div
@@ -270,8 +393,96 @@ export default function App() {
               <p>
                 <strong>Solve!</strong>: Similar to an actual NYT‑style solve
                 experience, but with date selection so you can play older
-                puzzles.
+                puzzles. Stuck? The Hint button can check your selection for a
+                pair, reveal a category or reveal a tile; hints used are marked
+                with 💡 in your results. Pick Timed or Speedrun under the grid
+                to race the clock; it starts on your first tile and pauses while
+                you&apos;re on another tab. Hard mode drops the “One away…”
+                hint, counts repeated guesses as mistakes and can lower the
+                mistake budget; its stats are kept separately. After a game, the
+                results list the words of every guess, and “Watch replay” steps
+                through it move by move. Out of mistakes? Reveal the solution or
+                keep practicing; practice guesses are marked in your results and
+                share text, and the game still counts as a loss. Turn on Mark
+                (M) to pencil in tentative colors: tapping a tile cycles its
+                color, and the color buttons (1–4) select every tile marked that
+                color. Marks are saved with your game and disappear once a tile
+                is solved.
+              </p>
+
+              <p>
+                <strong>Editor</strong>: Write your own puzzle: four categories
+                of four words (or images), ordered from yellow (easiest) to
+                purple (hardest). Duplicate words are flagged as you type.
+                Create a link to share it; the whole puzzle travels in the link,
+                and it opens in any of the three modes.
+              </p>
+
+              <p>
+                <strong>Archive</strong>: Every published puzzle with its
+                number, editor and how you did. Search finds puzzles by card
+                words or category titles (put a word in quotes to match it
+                exactly); pick a row to play it in Solve.
+              </p>
+
+              <p>
+                <strong>Difficulty</strong>: The badge next to the puzzle number
+                estimates how tricky a puzzle is from its words alone: cards
+                that could pass for another group (shared prefixes, substrings,
+                anagrams, matching lengths), short words and picture cards.
+                Hover it for details; the Archive shows the spread across every
+                puzzle and per editor.
+              </p>
+
+              <p>
+                <strong>Open puzzle</strong>: The “Open…” button next to the
+                date picker plays a puzzle from a .json file (drop it in or
+                choose it) or from pasted JSON, either in the daily puzzle
+                format or as a simple list of four titled groups of four words.
+                Your progress on it is saved like any other puzzle.
+              </p>
+
+              <p>
+                <strong>Packs</strong>: “Packs…” in Solve lists curated sets of
+                puzzles with how many you&apos;ve finished. While a pack is
+                active its arrows and “Next unsolved” replace the date picker;
+                “Leave pack” goes back to picking by date.
+              </p>
+
+              <p>
+                <strong>Stats</strong>: The chart button in the top bar shows
+                your Solve! record across every puzzle you&apos;ve played on
+                this device: win rate, streaks, mistakes used and the order you
+                found each color. It&apos;s also where you can export your
+                progress from every mode and import it on another device.
+              </p>
+
+              <p>
+                <strong>Offline</strong>: Puzzles you open are saved so they
+                work without a connection. The download button in the top bar
+                can save the whole archive and shows how much space it uses. You
+                can also install the app from your browser menu.
+              </p>
+
+              <p>
+                <strong>Keyboard</strong>: Every mode can be played without a
+                mouse. Press <kbd>?</kbd> to open this help.
               </p>
+              <table className="shortcutSheet">
+                <tbody>
+                  {KEYBOARD_SHORTCUTS.map((s, i) => (
+                    <tr key={i}>
+                      <td className="shortcutKeys">
+                        {s.keys.map((k) => (
+                          <kbd key={k}>{k}</kbd>
+                        ))}
+                      </td>
+                      <td>{s.action}</td>
+                      <td className="shortcutWhere">{s.where}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
 
               <p>
                 Questions or feedback? Reach me on Bluesky at{" "}
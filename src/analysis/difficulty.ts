@@ -0,0 +1,327 @@
+import type { CatalogEntry } from "../archive/catalog";
+import { COLORS, getTileText, isImageTile, type LoadedPuzzle } from "../puzzle";
+
+/**
+ * Difficulty signals computed from a puzzle's words alone (no solve data):
+ *
+ * - red herrings: cards that plausibly fit a group other than their own,
+ *   judged by shared 3-letter prefixes, shared 4+ letter substrings,
+ *   anagrams, and the target group's common prefix/suffix or uniform word
+ *   length
+ * - short words (3 letters or fewer), which read many ways
+ * - image-vs-text composition
+ *
+ * These are heuristics: they catch STAR/STARFISH and LEVEL/KAYAK-style
+ * overlaps, not meaning. The score blends them into a 0–100 number and a tier.
+ */
+
+export type PuzzleWords = {
+  groups: string[][]; // yellow..purple, card text per group
+  cards: number;
+  imageCards: number;
+};
+
+export type HerringReason =
+  "prefix" | "substring" | "anagram" | "affix" | "length";
+
+export type RedHerring = {
+  word: string;
+  group: number; // index into groups: where it belongs
+  fits: number; // the other group it could pass for
+  reasons: HerringReason[];
+};
+
+export type DifficultyTier = "easy" | "medium" | "tricky" | "devious";
+
+export type DifficultyReport = {
+  herrings: RedHerring[]; // at most one per card: its strongest other group
+  herringDensity: number; // share of cards that are red herrings, 0–1
+  shortWordShare: number; // share of cards with ≤ 3 letters, 0–1
+  imageShare: number; // share of image cards, 0–1
+  score: number; // 0–100
+  tier: DifficultyTier;
+};
+
+export const TIER_LABELS: Record<DifficultyTier, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  tricky: "Tricky",
+  devious: "Devious",
+};
+
+// Lower score bounds, hardest first.
+const TIER_THRESHOLDS: Array<[DifficultyTier, number]> = [
+  ["devious", 40],
+  ["tricky", 25],
+  ["medium", 10],
+  ["easy", 0],
+];
+
+const REASON_WEIGHTS: Record<HerringReason, number> = {
+  prefix: 1,
+  substring: 1,
+  anagram: 1,
+  affix: 1,
+  length: 0.5,
+};
+
+// A card fits another group once its evidence adds up to this much.
+const FIT_THRESHOLD = 1;
+
+const SHORT_WORD = 3; // letters
+
+// Points at a share of 1; the total is capped at 100.
+const SCORE_WEIGHTS = { herrings: 200, shortWords: 60, images: 20 };
+
+/* ---------------- inputs ---------------- */
+
+export function puzzleWordsFromLoaded(puzzle: LoadedPuzzle): PuzzleWords {
+  const byId = new Map(puzzle.tiles.map((t) => [t.id, t]));
+  const groups = COLORS.map((c) => {
+    const g = puzzle.solutionGroups.find((sg) => sg.color === c.key);
+    return (g?.tileIds ?? []).map((id) => {
+      const t = byId.get(id);
+      return t ? getTileText(t) : "";
+    });
+  });
+  return {
+    groups,
+    cards: puzzle.tiles.length,
+    imageCards: puzzle.tiles.filter(isImageTile).length,
+  };
+}
+
+export function puzzleWordsFromCatalog(entry: CatalogEntry): PuzzleWords {
+  return {
+    groups: entry.words,
+    cards: entry.words.reduce((n, g) => n + g.length, 0),
+    imageCards: entry.imageCards,
+  };
+}
+
+/* ---------------- heuristics ---------------- */
+
+// Letters only; alt text like "TEE (GOLF)" loses its parenthetical.
+function letters(word: string) {
+  return word
+    .toUpperCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^A-Z]/g, "");
+}
+
+function longestCommonSubstring(a: string, b: string) {
+  let best = 0;
+  let prev = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1] !== b[j - 1]) continue;
+      row[j] = prev[j - 1] + 1;
+      if (row[j] > best) best = row[j];
+    }
+    prev = row;
+  }
+  return best;
+}
+
+function sortedLetters(word: string) {
+  return word.split("").sort().join("");
+}
+
+function pairReasons(a: string, b: string): HerringReason[] {
+  if (!a || !b || a === b) return [];
+  const out: HerringReason[] = [];
+  if (a.length >= 3 && b.length >= 3 && a.slice(0, 3) === b.slice(0, 3))
+    out.push("prefix");
+  else if (longestCommonSubstring(a, b) >= 4) out.push("substring");
+  if (
+    a.length >= 3 &&
+    a.length === b.length &&
+    sortedLetters(a) === sortedLetters(b)
+  )
+    out.push("anagram");
+  return out;
+}
+
+function commonAffixes(words: string[]) {
+  const shortest = Math.min(...words.map((w) => w.length));
+  let prefix = 0;
+  while (
+    prefix < shortest &&
+    words.every((w) => w[prefix] === words[0][prefix])
+  )
+    prefix++;
+  let suffix = 0;
+  while (
+    suffix < shortest &&
+    words.every((w) => w.at(-1 - suffix) === words[0].at(-1 - suffix))
+  )
+    suffix++;
+  return {
+    prefix: prefix >= 2 ? words[0].slice(0, prefix) : null,
+    suffix: suffix >= 2 ? words[0].slice(-suffix) : null,
+  };
+}
+
+/* ---------------- report ---------------- */
+
+export function analyzePuzzle(puzzle: PuzzleWords): DifficultyReport {
+  const groups = puzzle.groups.map((g) => g.map(letters));
+  const traits = groups.map((g) => {
+    const usable = g.filter(Boolean);
+    const lengths = new Set(usable.map((w) => w.length));
+    return {
+      ...(usable.length === g.length && usable.length > 1
+        ? commonAffixes(usable)
+        : { prefix: null, suffix: null }),
+      length: usable.length > 1 && lengths.size === 1 ? usable[0].length : null,
+    };
+  });
+
+  const herrings: RedHerring[] = [];
+  groups.forEach((words, gi) => {
+    words.forEach((word, wi) => {
+      if (!word) return;
+      let best: RedHerring | null = null;
+      let bestWeight = 0;
+
+      groups.forEach((other, oi) => {
+        if (oi === gi) return;
+        const reasons = new Set<HerringReason>();
+        let weight = 0;
+        for (const o of other) {
+          const rs = pairReasons(word, o);
+          if (rs.length > 0) weight += REASON_WEIGHTS[rs[0]];
+          rs.forEach((r) => reasons.add(r));
+        }
+        const t = traits[oi];
+        if (
+          (t.prefix && word.startsWith(t.prefix)) ||
+          (t.suffix && word.endsWith(t.suffix))
+        ) {
+          reasons.add("affix");
+          weight += REASON_WEIGHTS.affix;
+        }
+        if (t.length !== null && word.length === t.length) {
+          reasons.add("length");
+          weight += REASON_WEIGHTS.length;
+        }
+
+        if (weight >= FIT_THRESHOLD && weight > bestWeight) {
+          bestWeight = weight;
+          best = {
+            word: puzzle.groups[gi][wi],
+            group: gi,
+            fits: oi,
+            reasons: [...reasons],
+          };
+        }
+      });
+
+      if (best) herrings.push(best);
+    });
+  });
+
+  const cards = Math.max(1, puzzle.cards);
+  const herringDensity = herrings.length / cards;
+  const shortWordShare =
+    groups.flat().filter((w) => w && w.length <= SHORT_WORD).length / cards;
+  const imageShare = puzzle.imageCards / cards;
+  // Picture cards add ambiguity the word heuristics can't see.
+  const score = Math.min(
+    100,
+    Math.round(
+      herringDensity * SCORE_WEIGHTS.herrings +
+        shortWordShare * SCORE_WEIGHTS.shortWords +
+        imageShare * SCORE_WEIGHTS.images,
+    ),
+  );
+  const tier = TIER_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? "easy";
+
+  return { herrings, herringDensity, shortWordShare, imageShare, score, tier };
+}
+
+export function describeDifficulty(report: DifficultyReport): string {
+  const n = report.herrings.length;
+  const parts = [
+    `${TIER_LABELS[report.tier]} (${report.score}/100)`,
+    `${n} red herring${n === 1 ? "" : "s"}`,
+  ];
+  if (report.imageShare > 0)
+    parts.push(`${Math.round(report.imageShare * 100)}% picture cards`);
+  return parts.join(" · ");
+}
+
+/* ---------------- archive aggregate ---------------- */
+
+export type EditorTrend = {
+  editor: string;
+  puzzles: number;
+  avgScore: number;
+  imagePuzzles: number;
+  byYear: Array<{ year: string; puzzles: number; avgScore: number }>;
+};
+
+export type ArchiveDifficulty = {
+  puzzles: number;
+  avgScore: number;
+  avgHerringDensity: number;
+  imagePuzzles: number;
+  tiers: Record<DifficultyTier, number>;
+  editors: EditorTrend[]; // most puzzles first
+};
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export function summarizeDifficulty(
+  entries: Array<{
+    printDate: string;
+    editor: string;
+    report: DifficultyReport;
+  }>,
+): ArchiveDifficulty {
+  const tiers: Record<DifficultyTier, number> = {
+    easy: 0,
+    medium: 0,
+    tricky: 0,
+    devious: 0,
+  };
+  const byEditor = new Map<string, typeof entries>();
+  for (const e of entries) {
+    tiers[e.report.tier]++;
+    const key = e.editor || "Unknown";
+    byEditor.set(key, [...(byEditor.get(key) ?? []), e]);
+  }
+
+  const editors: EditorTrend[] = [...byEditor].map(([editor, list]) => {
+    const years = new Map<string, number[]>();
+    for (const e of list) {
+      const year = e.printDate.slice(0, 4);
+      years.set(year, [...(years.get(year) ?? []), e.report.score]);
+    }
+    return {
+      editor,
+      puzzles: list.length,
+      avgScore: Math.round(mean(list.map((e) => e.report.score))),
+      imagePuzzles: list.filter((e) => e.report.imageShare > 0).length,
+      byYear: [...years]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([year, scores]) => ({
+          year,
+          puzzles: scores.length,
+          avgScore: Math.round(mean(scores)),
+        })),
+    };
+  });
+
+  return {
+    puzzles: entries.length,
+    avgScore: Math.round(mean(entries.map((e) => e.report.score))),
+    avgHerringDensity: mean(entries.map((e) => e.report.herringDensity)),
+    imagePuzzles: entries.filter((e) => e.report.imageShare > 0).length,
+    tiers,
+    editors: editors.sort((a, b) => b.puzzles - a.puzzles),
+  };
+}
@@ -0,0 +1,40 @@
+import { nytUrl } from "../puzzle";
+import { fetchJsonCached } from "../utils/fetchJsonCached";
+
+/**
+ * Client side of public/nyt/catalog.json, written by
+ * scripts/fetch-connections-range.mjs next to available-dates.json: one
+ * compact entry per published puzzle, so the Archive can list, search and
+ * analyze the whole archive from a single download.
+ */
+
+export type CatalogEntry = {
+  id: number;
+  print_date: string;
+  editor: string;
+  titles: string[]; // yellow..purple
+  words: string[][]; // per title, upper-cased (image cards by alt text)
+  imageCards: number; // cards shown as pictures
+  hash: string; // of the puzzle file as served
+};
+
+export type Catalog = {
+  version: number;
+  timezone?: string;
+  puzzles: CatalogEntry[];
+};
+
+/** The generated catalog, or null if it's missing or from an unknown version. */
+export async function fetchCatalog(): Promise<Catalog | null> {
+  try {
+    const data = await fetchJsonCached<Catalog>(nytUrl("nyt/catalog.json"));
+    if (data?.version !== 2 || !Array.isArray(data.puzzles)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export function catalogByDate(catalog: Catalog): Map<string, CatalogEntry> {
+  return new Map(catalog.puzzles.map((p) => [p.print_date, p]));
+}
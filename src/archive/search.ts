@@ -0,0 +1,73 @@
+import type { Catalog } from "./catalog";
+
+export type SearchScope = "all" | "words" | "titles";
+
+export type ArchiveMatch = {
+  words: string[]; // matching card texts
+  titles: string[]; // matching category titles
+};
+
+// Card text -> print dates using it, built once per catalog.
+const wordIndexes = new WeakMap<Catalog, Map<string, string[]>>();
+
+function wordIndex(catalog: Catalog) {
+  let index = wordIndexes.get(catalog);
+  if (!index) {
+    index = new Map();
+    for (const p of catalog.puzzles) {
+      for (const word of new Set(p.words.flat())) {
+        if (!word) continue;
+        const dates = index.get(word);
+        if (dates) dates.push(p.print_date);
+        else index.set(word, [p.print_date]);
+      }
+    }
+    wordIndexes.set(catalog, index);
+  }
+  return index;
+}
+
+function normalize(s: string) {
+  return s.toUpperCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Puzzles whose card text or category titles contain `query` (case-insensitive).
+ * A query in double quotes matches whole card text exactly ("HINGE" but not
+ * HINGED); titles always match as a phrase. Keyed by print date.
+ */
+export function searchArchive(
+  catalog: Catalog,
+  query: string,
+  scope: SearchScope = "all",
+): Map<string, ArchiveMatch> {
+  const out = new Map<string, ArchiveMatch>();
+  const quoted = /^"(.*)"$/.exec(query.trim());
+  const q = normalize(quoted ? quoted[1] : query);
+  if (!q) return out;
+
+  const matchFor = (date: string) => {
+    let m = out.get(date);
+    if (!m) {
+      m = { words: [], titles: [] };
+      out.set(date, m);
+    }
+    return m;
+  };
+
+  if (scope !== "titles") {
+    for (const [text, dates] of wordIndex(catalog)) {
+      if (quoted ? text !== q : !text.includes(q)) continue;
+      for (const date of dates) matchFor(date).words.push(text);
+    }
+  }
+
+  if (scope !== "words") {
+    for (const p of catalog.puzzles)
+      for (const title of p.titles)
+        if (normalize(title).includes(q))
+          matchFor(p.print_date).titles.push(title);
+  }
+
+  return out;
+}
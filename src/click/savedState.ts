@@ -0,0 +1,59 @@
+import { uid, type ColorKey, type Group } from "../puzzle";
+import { readRecord, writeRecord } from "../utils/persistence";
+
+/* ---------------- persistence: save only categorized groups + color ---------------- */
+
+export type SavedClickState = {
+  groups?: Array<Pick<Group, "id" | "color" | "tileIds">>;
+};
+
+/**
+ * Keep only well-formed groups. Without `validTileIds` (e.g. when importing
+ * progress for a puzzle that isn't loaded) any string tile ids are accepted.
+ */
+export function cleanSavedGroups(
+  raw: unknown,
+  validTileIds?: Set<string>,
+): Group[] {
+  if (!raw || typeof raw !== "object") return [];
+  const parsed = raw as SavedClickState;
+  const groups = Array.isArray(parsed.groups) ? parsed.groups : [];
+
+  const cleaned: Group[] = [];
+  for (const g of groups) {
+    if (!g || !Array.isArray(g.tileIds) || g.tileIds.length !== 4) continue;
+    if (!g.color) continue;
+    if (
+      g.tileIds.some(
+        (id) =>
+          typeof id !== "string" || (validTileIds && !validTileIds.has(id)),
+      )
+    )
+      continue;
+
+    cleaned.push({
+      id: typeof g.id === "string" ? g.id : uid("group"),
+      color: g.color as ColorKey,
+      tileIds: g.tileIds,
+    });
+  }
+
+  return cleaned;
+}
+
+export function loadSavedGroups(
+  printDate: string,
+  validTileIds: Set<string>,
+): Group[] {
+  try {
+    const parsed = readRecord<SavedClickState>("click", printDate)?.data;
+    return cleanSavedGroups(parsed, validTileIds);
+  } catch {
+    return [];
+  }
+}
+
+export function saveGroups(printDate: string, groups: Group[]) {
+  const payload: SavedClickState = { groups };
+  writeRecord("click", printDate, payload);
+}
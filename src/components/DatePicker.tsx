@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  clampToAvailable,
+  fmtLocalYYYYMMDD,
+  formatDateLabel,
+  monthKeyFromYMD,
+  ymdFromUTCDate,
+} from "../puzzle";
+
+/* ---------------- Sophisticated DatePicker ---------------- */
+
+export default function DatePicker({
+  value,
+  availableDatesAsc,
+  onChange,
+}: {
+  value: string;
+  availableDatesAsc: string[];
+  onChange: (next: string) => void;
+}) {
+  const availableSet = useMemo(
+    () => new Set(availableDatesAsc),
+    [availableDatesAsc],
+  );
+
+  const [open, setOpen] = useState(false);
+  const [month, setMonth] = useState(() => monthKeyFromYMD(value));
+  const popoverRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => setMonth(monthKeyFromYMD(value)), [value]);
+
+  // close on outside click + Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+
+    const onDown = (e: MouseEvent) => {
+      const el = popoverRef.current;
+      if (!el) return;
+      if (!el.contains(e.target as Node)) setOpen(false);
+    };
+
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("mousedown", onDown);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("mousedown", onDown);
+    };
+  }, [open]);
+
+  const idx = availableDatesAsc.indexOf(value);
+  const hasPrev = availableDatesAsc.length > 0 ? idx > 0 : false;
+  const hasNext =
+    availableDatesAsc.length > 0
+      ? idx >= 0 && idx < availableDatesAsc.length - 1
+      : false;
+
+  const goPrev = () => {
+    if (!hasPrev) return;
+    onChange(availableDatesAsc[idx - 1]);
+  };
+
+  const goNext = () => {
+    if (!hasNext) return;
+    onChange(availableDatesAsc[idx + 1]);
+  };
+
+  const monthStartUTC = useMemo(() => {
+    const [y, m] = month.split("-").map(Number);
+    return new Date(Date.UTC(y, m - 1, 1));
+  }, [month]);
+
+  const firstDow = monthStartUTC.getUTCDay(); // 0=Sun
+  const daysInMonth = useMemo(() => {
+    const y = monthStartUTC.getUTCFullYear();
+    const m = monthStartUTC.getUTCMonth();
+    return new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  }, [monthStartUTC]);
+
+  const gridCells = useMemo(() => {
+    const cells: Array<{ ymd: string; inMonth: boolean; enabled: boolean }> =
+      [];
+    const start = new Date(monthStartUTC);
+    start.setUTCDate(1 - firstDow);
+
+    for (let i = 0; i < 42; i++) {
+      const d = new Date(start);
+      d.setUTCDate(start.getUTCDate() + i);
+
+      const ymd = ymdFromUTCDate(d);
+      const inMonth = d.getUTCMonth() === monthStartUTC.getUTCMonth();
+      const enabled =
+        availableDatesAsc.length > 0 ? availableSet.has(ymd) : true;
+
+      cells.push({ ymd, inMonth, enabled });
+    }
+    return cells;
+  }, [monthStartUTC, firstDow, availableSet, availableDatesAsc.length]);
+
+  const moveMonth = (delta: number) => {
+    const y = monthStartUTC.getUTCFullYear();
+    const m = monthStartUTC.getUTCMonth();
+    const next = new Date(Date.UTC(y, m + delta, 1));
+    setMonth(ymdFromUTCDate(next).slice(0, 7));
+  };
+
+  const jumpTo = (ymd: string) => {
+    const next = clampToAvailable(ymd, availableDatesAsc);
+    if (next) onChange(next);
+    setOpen(false);
+  };
+
+  const monthTitle = useMemo(() => {
+    const mid = new Date(monthStartUTC);
+    mid.setUTCDate(Math.min(15, daysInMonth));
+    return mid.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+  }, [monthStartUTC, daysInMonth]);
+
+  return (
+    <div className="nytDatePicker" ref={popoverRef}>
+      <button
+        className="nytNavBtn"
+        type="button"
+        disabled={!hasPrev}
+        onClick={goPrev}
+        aria-label="Previous date"
+      >
+        ‹
+      </button>
+
+      <button
+        className="nytDateBtn"
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="Pick a date"
+      >
+        {formatDateLabel(value)}
+      </button>
+
+      <button
+        className="nytNavBtn"
+        type="button"
+        disabled={!hasNext}
+        onClick={goNext}
+        aria-label="Next date"
+      >
+        ›
+      </button>
+
+      <button
+        className="nytTodayBtn"
+        type="button"
+        onClick={() => onChange(fmtLocalYYYYMMDD(new Date()))}
+      >
+        Today
+      </button>
+
+      {open && (
+        <div className="nytCal" role="dialog" aria-label="Date picker">
+          <div className="nytCalHeader">
+            <button
+              className="nytCalArrow"
+              type="button"
+              onClick={() => moveMonth(-1)}
+              aria-label="Previous month"
+            >
+              ‹
+            </button>
+            <div className="nytCalMonth">{monthTitle}</div>
+            <button
+              className="nytCalArrow"
+              type="button"
+              onClick={() => moveMonth(1)}
+              aria-label="Next month"
+            >
+              ›
+            </button>
+          </div>
+
+          <div className="nytCalDow">
+            {["S", "M", "T", "W", "T", "F", "S"].map((d) => (
+              <div key={d} className="nytCalDowCell">
+                {d}
+              </div>
+            ))}
+          </div>
+
+          <div className="nytCalGrid">
+            {gridCells.map((c) => {
+              const day = c.ymd.slice(8, 10);
+              const isSelected = c.ymd === value;
+
+              const cls = [
+                "nytCalCell",
+                c.inMonth ? "inMonth" : "outMonth",
+                c.enabled ? "enabled" : "disabled",
+                isSelected ? "selected" : "",
+              ]
+                .filter(Boolean)
+                .join(" ");
+
+              return (
+                <button
+                  key={c.ymd}
+                  type="button"
+                  className={cls}
+                  disabled={!c.enabled}
+                  onClick={() => jumpTo(c.ymd)}
+                  title={c.enabled ? c.ymd : "Not available"}
+                >
+                  {String(Number(day))}
+                </button>
+              );
+            })}
+          </div>
+
+          <button
+            className="nytCalClose"
+            type="button"
+            onClick={() => setOpen(false)}
+          >
+            Close
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
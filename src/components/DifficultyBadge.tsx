@@ -0,0 +1,25 @@
+import {
+  TIER_LABELS,
+  describeDifficulty,
+  type DifficultyReport,
+} from "../analysis/difficulty";
+
+/* ---------------- Difficulty badge (nytMeta row, archive rows) ---------------- */
+
+export default function DifficultyBadge({
+  report,
+}: {
+  report: DifficultyReport | null;
+}) {
+  if (!report) return null;
+  const description = describeDifficulty(report);
+  return (
+    <span
+      className={`difficultyBadge ${report.tier}`}
+      title={description}
+      aria-label={`Difficulty: ${description}`}
+    >
+      {TIER_LABELS[report.tier]}
+    </span>
+  );
+}
@@ -0,0 +1,8 @@
+/** Visually hidden, polite live region for game events. */
+export default function LiveRegion({ message }: { message: string }) {
+  return (
+    <div className="srOnly" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+}
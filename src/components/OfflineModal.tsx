@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import { fetchAvailableDates } from "../puzzle";
+import {
+  countCachedPuzzles,
+  estimateStorage,
+  formatBytes,
+  offlineCacheSupported,
+} from "../offline/cache";
+import { downloadArchive } from "../offline/archive";
+
+type Usage = {
+  cachedPuzzles: number;
+  storage: { usage: number; quota: number } | null;
+};
+
+export default function OfflineModal({ onClose }: { onClose: () => void }) {
+  const supported = offlineCacheSupported();
+  const [datesAsc, setDatesAsc] = useState<string[]>([]);
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshUsage = async () => {
+    const [cachedPuzzles, storage] = await Promise.all([
+      countCachedPuzzles(),
+      estimateStorage(),
+    ]);
+    setUsage({ cachedPuzzles, storage });
+  };
+
+  useEffect(() => {
+    fetchAvailableDates().then(setDatesAsc);
+    refreshUsage();
+    // Stop a running download if the modal is closed.
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const onDownload = async () => {
+    if (progress || datesAsc.length === 0) return;
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setMessage(null);
+    setError(null);
+    try {
+      const result = await downloadArchive(
+        datesAsc,
+        (done, total) => setProgress({ done, total }),
+        ctrl.signal,
+      );
+      setMessage(
+        `Saved ${result.fetched} new puzzle${result.fetched === 1 ? "" : "s"}` +
+          (result.alreadyCached
+            ? ` (${result.alreadyCached} already offline)`
+            : "") +
+          ".",
+      );
+      if (result.failed.length > 0)
+        setError(
+          `Couldn't download ${result.failed.length} puzzle${result.failed.length === 1 ? "" : "s"}: ${result.failed.slice(0, 5).join(", ")}${result.failed.length > 5 ? "…" : ""}`,
+        );
+    } catch (e) {
+      if (!ctrl.signal.aborted)
+        setError(e instanceof Error ? e.message : "Download failed");
+      else setMessage("Download stopped.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshUsage();
+    }
+  };
+
+  const controlled =
+    "serviceWorker" in navigator && Boolean(navigator.serviceWorker.controller);
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div
+        className="modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Offline play"
+      >
+        <div className="modalTitle">Offline Play</div>
+
+        <div className="modalBody">
+          {!supported ? (
+            <p>This browser can&apos;t store puzzles for offline play.</p>
+          ) : (
+            <>
+              <p>
+                Every puzzle you open is saved on this device automatically.
+                Download the whole archive to play any date without a
+                connection.
+              </p>
+              {!controlled && (
+                <p className="modalFinePrint">
+                  Offline mode turns on after the app has been loaded once
+                  (reload this page if you just opened it).
+                </p>
+              )}
+
+              <div className="offlineUsage" role="status">
+                <div>
+                  Puzzles available offline:{" "}
+                  <strong>
+                    {usage ? usage.cachedPuzzles : "…"}
+                    {datesAsc.length > 0 ? ` of ${datesAsc.length}` : ""}
+                  </strong>
+                </div>
+                <div>
+                  Storage used:{" "}
+                  <strong>
+                    {usage?.storage
+                      ? `${formatBytes(usage.storage.usage)}` +
+                        (usage.storage.quota
+                          ? ` of ${formatBytes(usage.storage.quota)}`
+                          : "")
+                      : "unknown"}
+                  </strong>
+                </div>
+              </div>
+
+              {progress && (
+                <div className="offlineProgress">
+                  <progress value={progress.done} max={progress.total} />
+                  <div className="modalFinePrint">
+                    Downloading {progress.done} / {progress.total}…
+                  </div>
+                </div>
+              )}
+
+              <div className="modalActions">
+                {progress ? (
+                  <button
+                    className="pillBtn"
+                    type="button"
+                    onClick={() => abortRef.current?.abort()}
+                  >
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    className="pillBtn primary"
+                    type="button"
+                    onClick={onDownload}
+                    disabled={datesAsc.length === 0}
+                  >
+                    Download whole archive
+                  </button>
+                )}
+              </div>
+
+              {error && <div className="nytError">{error}</div>}
+              {message && (
+                <p className="modalFinePrint" role="status">
+                  {message}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <button className="pillBtn full" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
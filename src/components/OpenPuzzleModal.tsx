@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import type { DragEvent as ReactDragEvent } from "react";
+import {
+  MAX_PUZZLE_FILE_BYTES,
+  parseOpenedPuzzle,
+  type LoadedPuzzle,
+} from "../puzzle";
+
+/* ---------------- Open a puzzle from a file or pasted JSON ---------------- */
+
+export default function OpenPuzzleModal({
+  onOpen,
+  onClose,
+}: {
+  onOpen: (puzzle: LoadedPuzzle) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const open = (raw: string, source: string) => {
+    try {
+      onOpen(parseOpenedPuzzle(raw, source));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't open that puzzle");
+    }
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    if (file.size > MAX_PUZZLE_FILE_BYTES) {
+      setError(`${file.name} is too large to be a puzzle file.`);
+      return;
+    }
+    try {
+      open(await file.text(), file.name.replace(/\.json$/i, ""));
+    } catch {
+      setError(`Couldn't read ${file.name}.`);
+    }
+  };
+
+  const onDrop = (e: ReactDragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    openFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div
+        className="modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Open puzzle"
+      >
+        <div className="modalTitle">Open Puzzle</div>
+
+        <div className="modalBody">
+          <p>
+            Play a puzzle that isn&apos;t in the archive: a <code>.json</code>{" "}
+            file in the same format as the daily puzzles, or the short form{" "}
+            <code>{'{"groups":[{"title":…,"words":[…]}]}'}</code> with four
+            groups from easiest to hardest.
+          </p>
+
+          <div
+            className={`openDropZone ${dragOver ? "active" : ""}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={onDrop}
+          >
+            <span>Drop a puzzle file here or</span>
+            <button
+              className="pillBtn"
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose file…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                openFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          <textarea
+            className="openPasteBox"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setError(null);
+            }}
+            placeholder="…or paste the puzzle JSON here"
+            aria-label="Puzzle JSON"
+            rows={6}
+            spellCheck={false}
+          />
+
+          {error && <div className="nytError">{error}</div>}
+
+          <div className="modalActions">
+            <button
+              className="pillBtn primary"
+              type="button"
+              onClick={() => open(text, "Pasted puzzle")}
+              disabled={!text.trim()}
+            >
+              Open pasted puzzle
+            </button>
+          </div>
+        </div>
+
+        <button className="pillBtn full" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import {
+  fetchPacks,
+  packProgress,
+  type PackProgress,
+  type PuzzlePack,
+} from "../packs/packs";
+
+/* ---------------- Pack browser ---------------- */
+
+export default function PacksModal({
+  activePackId,
+  onChoose,
+  onClose,
+}: {
+  activePackId: string | null;
+  onChoose: (pack: PuzzlePack) => void;
+  onClose: () => void;
+}) {
+  const [packs, setPacks] = useState<PuzzlePack[] | null>(null);
+  const [progress, setProgress] = useState<Record<string, PackProgress>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPacks().then(async (list) => {
+      if (cancelled) return;
+      setPacks(list);
+      // Read saved progress once per open so it reflects the latest solve.
+      const entries = await Promise.all(
+        list.map(async (p) => [p.id, await packProgress(p)] as const),
+      );
+      if (!cancelled) setProgress(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div
+        className="modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Puzzle packs"
+      >
+        <div className="modalTitle">Puzzle Packs</div>
+
+        <div className="modalBody">
+          {packs === null && <p>Loading packs…</p>}
+          {packs?.length === 0 && <p>No packs are available right now.</p>}
+
+          <ul className="packList">
+            {packs?.map((pack) => {
+              const p = progress[pack.id];
+              const done = p ? p.won + p.failed : 0;
+              const total = p?.total ?? pack.items.length;
+              const complete = p !== undefined && done === total;
+              return (
+                <li
+                  key={pack.id}
+                  className={`packRow ${pack.id === activePackId ? "active" : ""}`}
+                >
+                  <div className="packInfo">
+                    <div className="packName">{pack.name}</div>
+                    {pack.description && (
+                      <div className="modalFinePrint">{pack.description}</div>
+                    )}
+                    <progress
+                      className="packProgress"
+                      value={done}
+                      max={total}
+                      aria-label={`${pack.name}: ${done} of ${total} finished`}
+                    />
+                    <div className="modalFinePrint">
+                      {p
+                        ? `${p.won} solved${p.failed ? `, ${p.failed} failed` : ""} of ${total}`
+                        : `${total} puzzles`}
+                    </div>
+                  </div>
+                  <button
+                    className={`pillBtn ${pack.id === activePackId ? "" : "primary"}`}
+                    type="button"
+                    onClick={() => onChoose(pack)}
+                  >
+                    {pack.id === activePackId
+                      ? "Playing"
+                      : complete
+                        ? "Review"
+                        : done > 0
+                          ? "Continue"
+                          : "Play"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <button className="pillBtn full" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useRef, useState } from "react";
+import {
+  applyProgressFile,
+  downloadProgressFile,
+  parseProgressFile,
+  type ImportMode,
+} from "../progress/progressFile";
+
+/** Export / import every tab's saved progress as one JSON file. */
+export default function ProgressTransfer() {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [mode, setMode] = useState<ImportMode>("keep-newer");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsReload, setNeedsReload] = useState(false);
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    setError(null);
+    try {
+      const parsed = parseProgressFile(await file.text());
+      const summary = applyProgressFile(parsed, mode);
+      setMessage(
+        `Imported ${summary.written} record${summary.written === 1 ? "" : "s"} across ${summary.puzzles} puzzle${summary.puzzles === 1 ? "" : "s"}` +
+          (summary.skipped > 0
+            ? ` (kept ${summary.skipped} newer local record${summary.skipped === 1 ? "" : "s"}).`
+            : "."),
+      );
+      setNeedsReload(summary.written > 0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="progressTransfer">
+      <div className="statsSectionTitle">Progress</div>
+
+      <div className="modalActions">
+        <button
+          className="pillBtn"
+          type="button"
+          onClick={downloadProgressFile}
+        >
+          Export progress
+        </button>
+        <button
+          className="pillBtn"
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import progress
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => onFile(e.target.files?.[0])}
+        />
+      </div>
+
+      <div
+        className="progressImportMode"
+        role="radiogroup"
+        aria-label="When a puzzle exists on both devices"
+      >
+        <label>
+          <input
+            type="radio"
+            name="progressImportMode"
+            checked={mode === "keep-newer"}
+            onChange={() => setMode("keep-newer")}
+          />{" "}
+          Keep newer
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="progressImportMode"
+            checked={mode === "overwrite"}
+            onChange={() => setMode("overwrite")}
+          />{" "}
+          Overwrite with file
+        </label>
+      </div>
+
+      {error && <div className="nytError">{error}</div>}
+      {message && (
+        <p className="modalFinePrint" role="status">
+          {message}{" "}
+          {needsReload && (
+            <button
+              className="nytResetText"
+              type="button"
+              onClick={() => window.location.reload()}
+            >
+              Reload to apply
+            </button>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import TileFace from "./TileFace";
+import {
+  colorLabel,
+  getTileText,
+  getTileTextSize,
+  isImageTile,
+  type Tile,
+} from "../puzzle";
+import {
+  initialSolveState,
+  replaySteps,
+  type ReplayStep,
+  type SolveEvent,
+  type SolveRules,
+  type SolveStart,
+} from "../solve/engine";
+import {
+  clearTileAnim,
+  flyTiles,
+  popTiles,
+  shakeTiles,
+  type TileAnimMap,
+} from "../solve/tileAnim";
+
+/* ---------------- Replay of a finished game (Solve results) ---------------- */
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Pause after a selection, shuffle or reveal at 1× speed.
+const STEP_MS = 450;
+
+// The CSS tile animations last this long at 1× speed.
+const TILE_ANIM_MS = 300;
+
+function describeStep(step: ReplayStep, tilesById: Map<string, Tile>) {
+  const word = (id: string) => {
+    const t = tilesById.get(id);
+    return t ? getTileText(t) : "?";
+  };
+  const { event, outcomes } = step;
+  switch (event.type) {
+    case "select":
+      return `Selected ${word(event.tileId)}`;
+    case "deselect":
+      return `Deselected ${word(event.tileId)}`;
+    case "deselectAll":
+      return "Deselected all";
+    case "shuffle":
+      return "Shuffled";
+    case "reveal":
+      return "Solution revealed";
+    case "practice":
+      return "Kept practicing";
+    case "submit": {
+      const failed = outcomes.some((o) => o.type === "failed");
+      const parts: string[] = [];
+      for (const o of outcomes) {
+        if (o.type === "correct")
+          parts.push(`${colorLabel(o.group.color)}: ${o.group.title ?? ""}`);
+        if (o.type === "wrong")
+          parts.push(
+            o.repeat ? "Already guessed" : o.oneAway ? "One away…" : "Wrong",
+          );
+      }
+      if (failed) parts.push("out of mistakes");
+      return parts.join(", ");
+    }
+  }
+}
+
+export default function SolveReplay({
+  rules,
+  events,
+  start,
+  tilesById,
+  onClose,
+}: {
+  rules: SolveRules;
+  events: SolveEvent[];
+  start: SolveStart | null;
+  tilesById: Map<string, Tile>;
+  onClose: () => void;
+}) {
+  const steps = useMemo(
+    () => replaySteps(rules, events, start),
+    [rules, events, start],
+  );
+  const initial = useMemo(
+    () => initialSolveState(rules, start),
+    [rules, start],
+  );
+
+  // Steps applied so far; the board shows the state after them.
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [tileAnim, setTileAnim] = useState<TileAnimMap>({});
+  const [toast, setToast] = useState<string | null>(null);
+
+  // Bumped to abandon an animation in flight; its sleeps never resolve.
+  const runRef = useRef(0);
+  const speedRef = useRef(1);
+
+  const board = index === 0 ? initial : steps[index - 1].state;
+
+  const stop = () => {
+    runRef.current++;
+    setTileAnim({});
+    setToast(null);
+    setBusy(false);
+  };
+
+  const runStep = async (i: number) => {
+    const run = ++runRef.current;
+    const sleep = (ms: number) =>
+      new Promise<void>((r) =>
+        window.setTimeout(() => {
+          if (run === runRef.current) r();
+        }, ms / speedRef.current),
+      );
+    const step = steps[i];
+    setBusy(true);
+
+    if (step.event.type === "submit") {
+      const picked = step.before.selected;
+      await popTiles(setTileAnim, picked, sleep);
+      for (const o of step.outcomes) {
+        if (o.type === "wrong") {
+          if (o.repeat) setToast("Already guessed");
+          else if (o.oneAway) setToast("One away…");
+          await shakeTiles(setTileAnim, picked, sleep);
+        }
+        if (o.type === "correct") await flyTiles(setTileAnim, picked, sleep);
+      }
+      clearTileAnim(setTileAnim, picked);
+    } else {
+      if (step.event.type === "reveal") setToast("Solution revealed");
+      await sleep(STEP_MS);
+    }
+
+    setToast(null);
+    setIndex(i + 1);
+    setBusy(false);
+    if (i + 1 >= steps.length) setPlaying(false);
+  };
+
+  useEffect(() => {
+    if (!playing || busy || index >= steps.length) return;
+    runStep(index);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing, busy, index, steps.length]);
+
+  // Abandon any animation when the viewer closes.
+  useEffect(
+    () => () => {
+      runRef.current++;
+    },
+    [],
+  );
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      stop();
+      return;
+    }
+    if (index >= steps.length) setIndex(0);
+    setPlaying(true);
+  };
+
+  const stepBack = () => {
+    setPlaying(false);
+    stop();
+    setIndex((i) => Math.max(0, i - 1));
+  };
+
+  const stepForward = () => {
+    setPlaying(false);
+    if (busy || index >= steps.length) return;
+    runStep(index);
+  };
+
+  const onSpeedChange = (value: number) => {
+    speedRef.current = value;
+    setSpeed(value);
+  };
+
+  const current = index > 0 ? steps[index - 1] : null;
+  const selected = new Set(board.selected);
+
+  return (
+    <div className="replay" role="group" aria-label="Replay">
+      <div className="replayBoard">
+        {board.groups.map((g) => (
+          <div key={g.id} className={`nytSolvedBanner ${g.color}`}>
+            <div className="nytSolvedBannerTitle">
+              {(g.title ?? g.color).toUpperCase()}
+            </div>
+            <div className="nytSolvedBannerWords">
+              {g.tileIds
+                .map((id) => tilesById.get(id))
+                .map((t) => (t ? getTileText(t) : ""))
+                .join(", ")}
+            </div>
+          </div>
+        ))}
+        <div className="nytGrid replayGrid" aria-hidden="true">
+          {board.order.map((id) => {
+            const t = tilesById.get(id);
+            if (!t) return null;
+            const anim = tileAnim[id];
+            return (
+              <div
+                key={id}
+                className={`nytTile ${isImageTile(t) ? "imgTile" : ""} ${selected.has(id) ? "selected" : ""} ${anim ? `anim-${anim}` : ""} ${getTileTextSize(t)}`}
+                style={
+                  anim
+                    ? { animationDuration: `${TILE_ANIM_MS / speed}ms` }
+                    : undefined
+                }
+              >
+                <TileFace tile={t} />
+              </div>
+            );
+          })}
+        </div>
+        {toast && (
+          <div className="replayToast" aria-hidden="true">
+            {toast}
+          </div>
+        )}
+      </div>
+
+      <div className="replayStatus" role="status" aria-live="polite">
+        Step {index} of {steps.length}
+        {current && ` · ${describeStep(current, tilesById)}`} · Mistakes left:{" "}
+        {board.mistakesRemaining}
+      </div>
+
+      <div className="replayControls">
+        <button
+          className="pillBtn"
+          type="button"
+          onClick={stepBack}
+          disabled={index === 0}
+          aria-label="Step back"
+        >
+          ‹
+        </button>
+        <button className="pillBtn primary" type="button" onClick={togglePlay}>
+          {playing ? "Pause" : index >= steps.length ? "Replay" : "Play"}
+        </button>
+        <button
+          className="pillBtn"
+          type="button"
+          onClick={stepForward}
+          disabled={busy || index >= steps.length}
+          aria-label="Step forward"
+        >
+          ›
+        </button>
+        <select
+          className="nytModeSelect"
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          aria-label="Replay speed"
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}×
+            </option>
+          ))}
+        </select>
+        <button className="pillBtn" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { COLORS } from "../puzzle";
+import { listSavedSolveStates } from "../solve/savedState";
+import { computeSolveStats } from "../solve/stats";
+import { solveModeOf, type SolveModeKey } from "../solve/hardMode";
+import ProgressTransfer from "./ProgressTransfer";
+
+const ORDER_LABELS = ["1st", "2nd", "3rd", "4th"];
+
+export default function StatsModal({ onClose }: { onClose: () => void }) {
+  // Read saved progress once per open so the numbers reflect the latest solve.
+  const entries = useMemo(() => listSavedSolveStates(), []);
+  const hasHard = entries.some((e) => solveModeOf(e.state) === "hard");
+  const [mode, setMode] = useState<SolveModeKey>("normal");
+
+  // Normal and Hard mode results are never mixed.
+  const stats = useMemo(
+    () =>
+      computeSolveStats(entries.filter((e) => solveModeOf(e.state) === mode)),
+    [entries, mode],
+  );
+
+  const histMax = Math.max(1, ...stats.mistakesHistogram);
+
+  const summary: Array<{ label: string; value: number | string }> = [
+    { label: "Played", value: stats.gamesPlayed },
+    { label: "Win %", value: stats.winPct },
+    { label: "Perfect", value: stats.perfect },
+    { label: "Current Streak", value: stats.currentStreak },
+    { label: "Max Streak", value: stats.maxStreak },
+  ];
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div
+        className="modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Solve statistics"
+      >
+        <div className="modalTitle">Solve Statistics</div>
+
+        <div className="modalBody">
+          {hasHard && (
+            <div
+              className="statsModeFilter"
+              role="radiogroup"
+              aria-label="Solve mode"
+            >
+              <label>
+                <input
+                  type="radio"
+                  name="statsMode"
+                  checked={mode === "normal"}
+                  onChange={() => setMode("normal")}
+                />{" "}
+                Normal
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  name="statsMode"
+                  checked={mode === "hard"}
+                  onChange={() => setMode("hard")}
+                />{" "}
+                Hard mode
+              </label>
+            </div>
+          )}
+
+          <div className="statsSummary">
+            {summary.map((s) => (
+              <div key={s.label} className="statsSummaryItem">
+                <div className="statsSummaryValue">{s.value}</div>
+                <div className="statsSummaryLabel">{s.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {stats.hinted > 0 && (
+            <p className="modalFinePrint">
+              {stats.hinted} win{stats.hinted === 1 ? "" : "s"} used hints (not
+              counted as perfect).
+            </p>
+          )}
+
+          {stats.practiced > 0 && (
+            <p className="modalFinePrint">
+              {stats.practiced} failed puzzle
+              {stats.practiced === 1 ? " was" : "s were"} played on in practice
+              (still counted as losses).
+            </p>
+          )}
+
+          {stats.inProgress > 0 && (
+            <p className="modalFinePrint">
+              {stats.inProgress} puzzle{stats.inProgress === 1 ? "" : "s"} in
+              progress.
+            </p>
+          )}
+
+          <div className="statsSectionTitle">Mistakes Used</div>
+          <div className="statsHist">
+            {stats.mistakesHistogram.map((count, i) => {
+              const label =
+                i === stats.mistakesHistogram.length - 1 ? "X" : String(i);
+              return (
+                <div key={i} className="statsHistRow">
+                  <div className="statsHistLabel">{label}</div>
+                  <div className="statsHistTrack">
+                    <div
+                      className={`statsHistBar ${count > 0 ? "filled" : ""}`}
+                      style={{ width: `${(count / histMax) * 100}%` }}
+                    >
+                      {count}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="statsSectionTitle">Solve Order</div>
+          <table className="statsOrder">
+            <thead>
+              <tr>
+                <th scope="col">
+                  <span className="srOnly">Color</span>
+                </th>
+                {ORDER_LABELS.map((l) => (
+                  <th key={l} scope="col">
+                    {l}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {COLORS.map((c) => (
+                <tr key={c.key}>
+                  <th scope="row">
+                    <span
+                      className={`nytResultsSq ${c.key}`}
+                      aria-label={c.label}
+                    />
+                  </th>
+                  {stats.colorSolveOrder[c.key].map((n, i) => (
+                    <td key={i}>{n}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <ProgressTransfer />
+        </div>
+
+        <button className="pillBtn full" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
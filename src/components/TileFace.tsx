@@ -0,0 +1,16 @@
+import { isImageTile, type Tile } from "../puzzle";
+
+export default function TileFace({ tile }: { tile: Tile }) {
+  if (isImageTile(tile)) {
+    return (
+      <img
+        className="nytTileImg"
+        src={tile.imageUrl}
+        alt={tile.alt}
+        loading="lazy"
+        draggable={false}
+      />
+    );
+  }
+  return <>{tile.text}</>;
+}
@@ -0,0 +1,101 @@
+import { COLORS, type ColorKey, type Group } from "../puzzle";
+import { readRecord, writeRecord } from "../utils/persistence";
+import { cleanSavedGroups } from "../click/savedState";
+
+/* ---------------- persistence: save only categorized groups + color ---------------- */
+
+export type SavedDragState = {
+  groups?: Array<Pick<Group, "id" | "color" | "tileIds">>;
+  manualTileColor?: Record<string, unknown>;
+};
+
+export type TilePos = Record<string, { x: number; y: number }>;
+
+/** Without `validTileIds` any tile id is accepted (used when importing). */
+export function cleanTilePos(raw: unknown, validTileIds?: Set<string>) {
+  const out: TilePos = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const [id, p] of Object.entries(raw as TilePos)) {
+    if (validTileIds && !validTileIds.has(id)) continue;
+    if (!p || typeof p.x !== "number" || typeof p.y !== "number") continue;
+    out[id] = { x: p.x, y: p.y };
+  }
+  return out;
+}
+
+export function loadSavedTilePos(
+  printDate: string,
+  validTileIds: Set<string>,
+): TilePos {
+  try {
+    return cleanTilePos(readRecord("dragPos", printDate)?.data, validTileIds);
+  } catch {
+    return {};
+  }
+}
+
+export function saveTilePos(printDate: string, pos: TilePos) {
+  writeRecord("dragPos", printDate, pos);
+}
+
+/** Without `validTileIds` any tile id is accepted (used when importing). */
+export function cleanSavedDragState(
+  raw: unknown,
+  validTileIds?: Set<string>,
+): {
+  groups: Group[];
+  manualTileColor: Record<string, ColorKey | undefined>;
+} {
+  if (!raw || typeof raw !== "object")
+    return { groups: [], manualTileColor: {} };
+  const parsed = raw as SavedDragState;
+
+  // ---- groups ----
+  const cleanedGroups = cleanSavedGroups(parsed, validTileIds);
+
+  // ---- manual colors ----
+  const cleanedManual: Record<string, ColorKey | undefined> = {};
+  const manual = parsed.manualTileColor ?? {};
+  const allowed = new Set<ColorKey>(COLORS.map((c) => c.key));
+  if (manual && typeof manual === "object") {
+    for (const [id, v] of Object.entries(manual)) {
+      if (validTileIds && !validTileIds.has(id)) continue;
+      if (typeof v !== "string") continue;
+      if (!allowed.has(v as ColorKey)) continue;
+      cleanedManual[id] = v as ColorKey;
+    }
+  }
+
+  return { groups: cleanedGroups, manualTileColor: cleanedManual };
+}
+
+export function loadSavedDragState(
+  printDate: string,
+  validTileIds: Set<string>,
+): {
+  groups: Group[];
+  manualTileColor: Record<string, ColorKey | undefined>;
+} {
+  try {
+    const parsed = readRecord<SavedDragState>("drag", printDate)?.data;
+    return cleanSavedDragState(parsed, validTileIds);
+  } catch {
+    return { groups: [], manualTileColor: {} };
+  }
+}
+
+export function saveDragState(
+  printDate: string,
+  groups: Group[],
+  manualTileColor: Record<string, ColorKey | undefined>,
+) {
+  // Only persist defined colors
+  const cleanedManual: Record<string, ColorKey> = {};
+  for (const [id, c] of Object.entries(manualTileColor ?? {})) {
+    if (!c) continue;
+    cleanedManual[id] = c;
+  }
+
+  const payload: SavedDragState = { groups, manualTileColor: cleanedManual };
+  writeRecord("drag", printDate, payload);
+}
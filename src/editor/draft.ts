@@ -0,0 +1,52 @@
+import {
+  emptyCustomPuzzle,
+  type CustomCard,
+  type CustomPuzzle,
+} from "../puzzle";
+import { getSetting, setSetting } from "../utils/persistence";
+
+/* ---------------- persistence: the puzzle being written in the Editor ---------------- */
+
+const DRAFT_SETTING = "editorDraft";
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function cleanCard(raw: unknown): CustomCard {
+  const c = (raw ?? {}) as Partial<Record<string, unknown>>;
+  return c.kind === "image"
+    ? { kind: "image", imageUrl: str(c.imageUrl), alt: str(c.alt) }
+    : { kind: "text", text: str(c.text) };
+}
+
+/**
+ * The saved draft, always 4 groups × 4 cards so the form can render it
+ * directly; an empty puzzle if nothing usable is saved.
+ */
+export function loadEditorDraft(): CustomPuzzle {
+  const draft = emptyCustomPuzzle();
+  try {
+    const raw = JSON.parse(getSetting(DRAFT_SETTING) ?? "null");
+    if (!raw || typeof raw !== "object") return draft;
+    draft.name = str(raw.name);
+    draft.author = str(raw.author);
+    draft.groups.forEach((g, gi) => {
+      const savedGroup = Array.isArray(raw.groups) ? raw.groups[gi] : null;
+      if (!savedGroup || typeof savedGroup !== "object") return;
+      g.title = str(savedGroup.title);
+      g.cards = g.cards.map((c, ci) =>
+        Array.isArray(savedGroup.cards) && savedGroup.cards[ci]
+          ? cleanCard(savedGroup.cards[ci])
+          : c,
+      );
+    });
+  } catch {
+    // ignore
+  }
+  return draft;
+}
+
+export function saveEditorDraft(draft: CustomPuzzle) {
+  setSetting(DRAFT_SETTING, JSON.stringify(draft));
+}
@@ -2,5 +2,7 @@
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { registerServiceWorker } from "./offline/registerServiceWorker";
 
 createRoot(document.getElementById("root")!).render(<App />);
+registerServiceWorker();
@@ -0,0 +1,79 @@
+import { nytUrl } from "../puzzle/load";
+import { PUZZLE_CACHE, absoluteUrl, offlineCacheSupported } from "./cache";
+
+const DOWNLOAD_CONCURRENCY = 6;
+
+export type ArchiveDownloadResult = {
+  fetched: number;
+  alreadyCached: number;
+  failed: string[]; // print dates
+};
+
+/**
+ * Save every dated puzzle (plus the index files) to the offline cache.
+ * Files already cached are skipped. Rejects with an AbortError if `signal`
+ * is aborted.
+ */
+export async function downloadArchive(
+  datesAsc: string[],
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<ArchiveDownloadResult> {
+  if (!offlineCacheSupported())
+    throw new Error("Offline storage isn't available in this browser");
+
+  const cache = await caches.open(PUZZLE_CACHE);
+  const result: ArchiveDownloadResult = {
+    fetched: 0,
+    alreadyCached: 0,
+    failed: [],
+  };
+
+  // Index files change daily, so always refresh them.
+  for (const path of [
+    "nyt/available-dates.json",
+    "nyt/index.json",
+    "nyt/latest.json",
+    "nyt/packs.json",
+    "nyt/catalog.json",
+  ]) {
+    try {
+      const url = absoluteUrl(nytUrl(path));
+      const res = await fetch(url, { cache: "no-store", signal });
+      if (res.ok) await cache.put(url, res);
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // ignore; dated files are what matter offline
+    }
+  }
+
+  const queue = datesAsc.slice();
+  let done = 0;
+  onProgress(0, datesAsc.length);
+
+  const worker = async () => {
+    for (let d = queue.shift(); d !== undefined; d = queue.shift()) {
+      signal?.throwIfAborted();
+      const url = absoluteUrl(nytUrl(`nyt/${d}.json`));
+      try {
+        if (await cache.match(url)) {
+          result.alreadyCached++;
+        } else {
+          const res = await fetch(url, { cache: "no-store", signal });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          await cache.put(url, res);
+          result.fetched++;
+        }
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        result.failed.push(d);
+      }
+      onProgress(++done, datesAsc.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: DOWNLOAD_CONCURRENCY }, () => worker()),
+  );
+  return result;
+}
@@ -0,0 +1,102 @@
+/**
+ * Offline copies of puzzle files in Cache Storage. The service worker
+ * (public/sw.js) fills the puzzle cache as puzzles are opened; the page can
+ * also fill it in bulk (see ./archive). It is the persistent tier behind
+ * fetchJsonCached, so it also serves reloads and offline play.
+ */
+
+// Must match the name in public/sw.js.
+export const PUZZLE_CACHE = "cp-puzzles-v1";
+
+const DATED_FILE_RE = /\/nyt\/\d{4}-\d{2}-\d{2}\.json$/;
+
+export function offlineCacheSupported(): boolean {
+  return typeof caches !== "undefined";
+}
+
+export function absoluteUrl(url: string) {
+  return new URL(url, window.location.href).href;
+}
+
+export type CachedJson = {
+  data: unknown;
+  etag: string | null;
+  lastModified: string | null;
+};
+
+/**
+ * Parsed JSON from the puzzle cache plus the validators it was served with,
+ * or undefined if not cached.
+ */
+export async function readCachedJson(
+  url: string,
+): Promise<CachedJson | undefined> {
+  if (!offlineCacheSupported()) return undefined;
+  try {
+    const cache = await caches.open(PUZZLE_CACHE);
+    const res = await cache.match(absoluteUrl(url), { ignoreSearch: true });
+    if (!res) return undefined;
+    return {
+      data: await res.json(),
+      etag: res.headers.get("ETag"),
+      lastModified: res.headers.get("Last-Modified"),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Keep a successful response in the puzzle cache (best effort). */
+export async function writeCachedResponse(url: string, res: Response) {
+  if (!offlineCacheSupported()) return;
+  try {
+    const cache = await caches.open(PUZZLE_CACHE);
+    await cache.put(absoluteUrl(url), res);
+  } catch {
+    // ignore (quota, private mode)
+  }
+}
+
+/** Drop every stored puzzle file, including a downloaded archive. */
+export async function clearPuzzleCache() {
+  if (!offlineCacheSupported()) return;
+  try {
+    await caches.delete(PUZZLE_CACHE);
+  } catch {
+    // ignore
+  }
+}
+
+/** Number of dated puzzle files available offline. */
+export async function countCachedPuzzles(): Promise<number> {
+  if (!offlineCacheSupported()) return 0;
+  try {
+    const cache = await caches.open(PUZZLE_CACHE);
+    const keys = await cache.keys();
+    return keys.filter((req) => DATED_FILE_RE.test(new URL(req.url).pathname))
+      .length;
+  } catch {
+    return 0;
+  }
+}
+
+/** Origin-wide storage use (all caches + localStorage etc.), if the browser reports it. */
+export async function estimateStorage(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  try {
+    const est = await navigator.storage?.estimate?.();
+    if (!est || typeof est.usage !== "number") return null;
+    return { usage: est.usage, quota: est.quota ?? 0 };
+  } catch {
+    return null;
+  }
+}
+
+export function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
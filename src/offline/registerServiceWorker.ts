@@ -0,0 +1,16 @@
+/**
+ * Register public/sw.js (production builds only; the dev server serves
+ * modules that shouldn't be cached).
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, {
+        scope: import.meta.env.BASE_URL,
+      })
+      .catch(() => {
+        // ignore; the app works online without it
+      });
+  });
+}
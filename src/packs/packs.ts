@@ -0,0 +1,136 @@
+import { customPuzzleKey, decodeCustomPuzzle, isYMD, nytUrl } from "../puzzle";
+import { playStatus, type SolveOutcome } from "../solve/stats";
+import type { SavedSolveState } from "../solve/savedState";
+import { fetchJsonCached } from "../utils/fetchJsonCached";
+import { getSetting, readRecord, setSetting } from "../utils/persistence";
+
+/**
+ * Puzzle packs: curated collections described by public/nyt/packs.json.
+ *
+ *   { "packs": [{ "id", "name", "description"?, "items": [...] }] }
+ *
+ * An item is a print date ("2024-04-01") or a team-made puzzle
+ * `{ "custom": "<?custom= value from the Editor>", "title"? }`. Progress is
+ * whatever the player has saved in Solve for each item.
+ */
+
+export type PackItem =
+  | { kind: "date"; printDate: string }
+  | { kind: "custom"; encoded: string; title?: string };
+
+export type PuzzlePack = {
+  id: string;
+  name: string;
+  description?: string;
+  items: PackItem[];
+};
+
+export type PackItemStatus = SolveOutcome | "unplayed";
+
+export type PackProgress = {
+  statuses: PackItemStatus[]; // one per item, in pack order
+  won: number;
+  failed: number;
+  total: number;
+};
+
+function cleanItem(raw: unknown): PackItem | null {
+  if (typeof raw === "string")
+    return isYMD(raw) ? { kind: "date", printDate: raw } : null;
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as { custom?: unknown; title?: unknown };
+  if (typeof r.custom !== "string" || !r.custom) return null;
+  return {
+    kind: "custom",
+    encoded: r.custom,
+    title: typeof r.title === "string" ? r.title : undefined,
+  };
+}
+
+/** Packs from packs.json; malformed packs/items are skipped, [] if missing. */
+export async function fetchPacks(): Promise<PuzzlePack[]> {
+  try {
+    const data = await fetchJsonCached<{ packs?: unknown }>(
+      nytUrl("nyt/packs.json"),
+    );
+    if (!Array.isArray(data.packs)) return [];
+    const packs: PuzzlePack[] = [];
+    for (const raw of data.packs as Array<Record<string, unknown> | null>) {
+      if (!raw || typeof raw.id !== "string" || typeof raw.name !== "string")
+        continue;
+      const items = (Array.isArray(raw.items) ? raw.items : [])
+        .map(cleanItem)
+        .filter((i): i is PackItem => i !== null);
+      if (items.length === 0) continue;
+      packs.push({
+        id: raw.id,
+        name: raw.name,
+        description:
+          typeof raw.description === "string" ? raw.description : undefined,
+        items,
+      });
+    }
+    return packs;
+  } catch {
+    return [];
+  }
+}
+
+/** Key the item's Solve progress is saved under (see puzzleStorageKey). */
+export async function packItemKey(item: PackItem): Promise<string | null> {
+  if (item.kind === "date") return item.printDate;
+  try {
+    return customPuzzleKey(await decodeCustomPuzzle(item.encoded));
+  } catch {
+    return null; // broken link in the manifest; counts as unplayed
+  }
+}
+
+export async function packProgress(pack: PuzzlePack): Promise<PackProgress> {
+  const statuses = await Promise.all(
+    pack.items.map(async (item): Promise<PackItemStatus> => {
+      const key = await packItemKey(item);
+      return playStatus(
+        key ? readRecord<SavedSolveState>("solve", key)?.data : undefined,
+      );
+    }),
+  );
+  return {
+    statuses,
+    won: statuses.filter((s) => s === "won").length,
+    failed: statuses.filter((s) => s === "failed").length,
+    total: statuses.length,
+  };
+}
+
+/**
+ * Index of the first unfinished item after `from` (wrapping around), or null
+ * when every item is won or failed.
+ */
+export function nextUnsolvedIndex(
+  statuses: PackItemStatus[],
+  from: number,
+): number | null {
+  for (let step = 1; step <= statuses.length; step++) {
+    const i = (from + step) % statuses.length;
+    if (statuses[i] === "unplayed" || statuses[i] === "in-progress") return i;
+  }
+  return null;
+}
+
+export function packItemLabel(item: PackItem): string {
+  return item.kind === "date" ? item.printDate : (item.title ?? "Team puzzle");
+}
+
+/* ---------------- active pack (Solve) ---------------- */
+
+// Stored as "<pack id>:<item index>"; empty when no pack is active.
+export function loadActivePack(): { id: string; index: number } | null {
+  const raw = getSetting("solvePack");
+  const m = raw ? /^(.+):(\d+)$/.exec(raw) : null;
+  return m ? { id: m[1], index: Number(m[2]) } : null;
+}
+
+export function saveActivePack(active: { id: string; index: number } | null) {
+  setSetting("solvePack", active ? `${active.id}:${active.index}` : "");
+}
@@ -0,0 +1,175 @@
+import { isYMD } from "../puzzle";
+import { APP_VERSION } from "../version";
+import {
+  getSetting,
+  listRecords,
+  readRecord,
+  setSetting,
+  writeRecord,
+  type StoreName,
+} from "../utils/persistence";
+import { cleanSavedSolveState, toSavedSolveState } from "../solve/savedState";
+import { cleanSavedGroups } from "../click/savedState";
+import { cleanSavedDragState, cleanTilePos } from "../drag/savedState";
+
+/**
+ * A single JSON document holding every tab's saved progress, so it can be
+ * moved between browsers. Records keep their `savedAt` so a "keep newer"
+ * import can tell which copy is more recent.
+ */
+export type ProgressFile = {
+  kind: "connections-playground-progress";
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  appVersion: string;
+  activeTab: string | null;
+  puzzles: Record<
+    string, // print date
+    Partial<Record<StoreName, { savedAt: number; data: unknown }>>
+  >;
+};
+
+export type ImportMode = "overwrite" | "keep-newer";
+
+export type ImportSummary = {
+  written: number;
+  skipped: number; // existing copy was newer (keep-newer only)
+  puzzles: number;
+};
+
+const FILE_KIND = "connections-playground-progress";
+const STORES: StoreName[] = ["solve", "click", "drag", "dragPos"];
+
+/** Normalize a record with the same readers the tabs use on load. */
+const CLEANERS: Record<StoreName, (raw: unknown) => unknown> = {
+  solve: (raw) => toSavedSolveState(cleanSavedSolveState(raw)),
+  click: (raw) => ({ groups: cleanSavedGroups(raw) }),
+  drag: (raw) => cleanSavedDragState(raw),
+  dragPos: (raw) => cleanTilePos(raw),
+};
+
+export function buildProgressFile(): ProgressFile {
+  const puzzles: ProgressFile["puzzles"] = {};
+  for (const store of STORES) {
+    for (const rec of listRecords(store)) {
+      puzzles[rec.printDate] ??= {};
+      puzzles[rec.printDate][store] = {
+        savedAt: rec.savedAt,
+        data: CLEANERS[store](rec.data),
+      };
+    }
+  }
+
+  return {
+    kind: FILE_KIND,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    activeTab: getSetting("activeTab"),
+    puzzles,
+  };
+}
+
+/** Trigger a browser download of all saved progress. */
+export function downloadProgressFile() {
+  const file = buildProgressFile();
+  const blob = new Blob([JSON.stringify(file, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `connections-playground-progress-${file.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse and validate an exported progress file. Throws with a readable message
+ * if the document isn't one; individual malformed records are dropped.
+ */
+export function parseProgressFile(text: string): ProgressFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+
+  if (!raw || typeof raw !== "object")
+    throw new Error("Not a progress file (expected an object)");
+  const doc = raw as Partial<ProgressFile>;
+  if (doc.kind !== FILE_KIND)
+    throw new Error("Not a Connections Playground progress file");
+  if (doc.version !== 1)
+    throw new Error(
+      `Unsupported progress file version: ${String(doc.version)}`,
+    );
+  if (!doc.puzzles || typeof doc.puzzles !== "object")
+    throw new Error("Progress file has no puzzles");
+
+  const puzzles: ProgressFile["puzzles"] = {};
+  for (const [printDate, entry] of Object.entries(doc.puzzles)) {
+    if (!isYMD(printDate) || !entry || typeof entry !== "object") continue;
+    for (const store of STORES) {
+      const rec = (entry as ProgressFile["puzzles"][string])[store];
+      if (!rec || typeof rec !== "object" || !("data" in rec)) continue;
+      puzzles[printDate] ??= {};
+      puzzles[printDate][store] = {
+        savedAt:
+          typeof rec.savedAt === "number" && Number.isFinite(rec.savedAt)
+            ? rec.savedAt
+            : 0,
+        data: CLEANERS[store](rec.data),
+      };
+    }
+  }
+
+  return {
+    kind: FILE_KIND,
+    version: 1,
+    exportedAt: typeof doc.exportedAt === "string" ? doc.exportedAt : "",
+    appVersion: typeof doc.appVersion === "string" ? doc.appVersion : "",
+    activeTab: typeof doc.activeTab === "string" ? doc.activeTab : null,
+    puzzles,
+  };
+}
+
+/**
+ * Merge a parsed progress file into local storage. "overwrite" replaces every
+ * record present in the file; "keep-newer" only replaces a local record when
+ * the imported one was saved later.
+ */
+export function applyProgressFile(
+  file: ProgressFile,
+  mode: ImportMode,
+): ImportSummary {
+  const summary: ImportSummary = { written: 0, skipped: 0, puzzles: 0 };
+
+  for (const [printDate, entry] of Object.entries(file.puzzles)) {
+    let touched = false;
+    for (const store of STORES) {
+      const rec = entry[store];
+      if (!rec) continue;
+      if (mode === "keep-newer") {
+        const existing = readRecord(store, printDate);
+        if (existing && existing.savedAt >= rec.savedAt) {
+          summary.skipped++;
+          continue;
+        }
+      }
+      writeRecord(store, printDate, rec.data, rec.savedAt);
+      summary.written++;
+      touched = true;
+    }
+    if (touched) summary.puzzles++;
+  }
+
+  if (mode === "overwrite" && file.activeTab) {
+    setSetting("activeTab", file.activeTab);
+  }
+
+  return summary;
+}
@@ -0,0 +1,337 @@
+import { fmtLocalYYYYMMDD } from "./dates";
+import { parseNytPuzzle } from "./nyt";
+import { COLORS } from "./types";
+import type { LoadedPuzzle, NytCard, NytConnectionsResponse } from "./types";
+import { PuzzleValidationError } from "./validate";
+import type { PuzzleIssue } from "./validate";
+
+/**
+ * Player-made puzzles. The editor builds a CustomPuzzle; sharing packs it
+ * into a single query parameter (?custom=…) so a link carries the whole
+ * puzzle and needs nothing from public/nyt/.
+ *
+ * Wire format: a compact JSON array
+ *   [version, name, author, [[title, [card × 4]] × 4]]
+ * where a card is its text or [imageUrl, alt], deflated and base64url-encoded.
+ * The first character says how: "z" deflate-raw, "j" plain JSON (browsers
+ * without CompressionStream).
+ */
+
+export const CUSTOM_PARAM = "custom";
+
+const WIRE_VERSION = 1;
+const GROUP_COUNT = 4;
+const CARDS_PER_GROUP = 4;
+
+export type CustomCard =
+  | { kind: "text"; text: string }
+  | { kind: "image"; imageUrl: string; alt: string };
+
+export type CustomGroup = {
+  title: string;
+  cards: CustomCard[]; // exactly 4
+};
+
+export type CustomPuzzle = {
+  name: string;
+  author: string;
+  groups: CustomGroup[]; // easiest -> hardest (yellow -> purple)
+};
+
+/** A validation problem; `blank` ones are fields not filled in yet. */
+export type CustomIssue = PuzzleIssue & { blank?: boolean };
+
+export function emptyCustomPuzzle(): CustomPuzzle {
+  return {
+    name: "",
+    author: "",
+    groups: COLORS.map(() => ({
+      title: "",
+      cards: Array.from({ length: CARDS_PER_GROUP }, () => ({
+        kind: "text" as const,
+        text: "",
+      })),
+    })),
+  };
+}
+
+/* ---------------- validation ---------------- */
+
+/** Words compare case- and space-insensitively; images by URL. */
+function cardKey(card: CustomCard): string {
+  return card.kind === "text"
+    ? `t:${card.text.trim().replace(/\s+/g, " ").toUpperCase()}`
+    : `i:${card.imageUrl.trim()}`;
+}
+
+function isHttpUrl(s: string): boolean {
+  try {
+    const url = new URL(s);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/** "Yellow card 2" for `groups[0].cards[1]`, "Blue title" for `groups[2].title`. */
+export function customIssueLabel(path: string): string {
+  const m = /^groups\[(\d)\](?:\.(title)|\.cards\[(\d)\])?/.exec(path);
+  if (!m) return path;
+  const color = COLORS[Number(m[1])]?.label ?? `Group ${Number(m[1]) + 1}`;
+  if (m[2]) return `${color} title`;
+  if (m[3] !== undefined) return `${color} card ${Number(m[3]) + 1}`;
+  return color;
+}
+
+/**
+ * Every problem that keeps a custom puzzle from being shared: missing titles
+ * or cards, bad image URLs and words used more than once. Paths look like
+ * `groups[1].cards[2]`.
+ */
+export function validateCustomPuzzle(p: CustomPuzzle): CustomIssue[] {
+  const issues: CustomIssue[] = [];
+  const add = (path: string, message: string, blank?: boolean) =>
+    issues.push(blank ? { path, message, blank } : { path, message });
+
+  if (p.groups.length !== GROUP_COUNT) {
+    add("groups", `expected ${GROUP_COUNT} groups, got ${p.groups.length}`);
+  }
+
+  const seen = new Map<string, string>();
+
+  p.groups.forEach((g, gi) => {
+    const groupPath = `groups[${gi}]`;
+    if (!g.title.trim()) add(`${groupPath}.title`, "missing title", true);
+
+    if (g.cards.length !== CARDS_PER_GROUP) {
+      add(
+        `${groupPath}.cards`,
+        `expected ${CARDS_PER_GROUP} cards, got ${g.cards.length}`,
+      );
+    }
+
+    g.cards.forEach((card, ci) => {
+      const cardPath = `${groupPath}.cards[${ci}]`;
+      if (card.kind === "text") {
+        if (!card.text.trim()) {
+          add(cardPath, "missing word", true);
+          return;
+        }
+      } else if (!card.imageUrl.trim()) {
+        add(cardPath, "missing image URL", true);
+        return;
+      } else if (!isHttpUrl(card.imageUrl.trim())) {
+        add(cardPath, "expected an http(s) image URL");
+        return;
+      }
+
+      const key = cardKey(card);
+      const first = seen.get(key);
+      if (first) {
+        add(
+          cardPath,
+          `same ${card.kind === "text" ? "word" : "image"} as ${customIssueLabel(first)}`,
+        );
+      } else {
+        seen.set(key, cardPath);
+      }
+    });
+  });
+
+  return issues;
+}
+
+/* ---------------- to a playable puzzle ---------------- */
+
+// FNV-1a; only needs to be stable, not secure.
+export function contentHash(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+function seededRandom(seed: number) {
+  // mulberry32
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toWire(p: CustomPuzzle): unknown[] {
+  return [
+    WIRE_VERSION,
+    p.name.trim(),
+    p.author.trim(),
+    p.groups.map((g) => [
+      g.title.trim(),
+      g.cards.map((c) =>
+        c.kind === "text" ? c.text.trim() : [c.imageUrl.trim(), c.alt.trim()],
+      ),
+    ]),
+  ];
+}
+
+function fromWire(raw: unknown): CustomPuzzle {
+  const bad = () =>
+    new PuzzleValidationError("(shared link)", [
+      { path: "(root)", message: "not a puzzle link this version understands" },
+    ]);
+  if (!Array.isArray(raw) || raw[0] !== WIRE_VERSION || !Array.isArray(raw[3]))
+    throw bad();
+
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  return {
+    name: str(raw[1]),
+    author: str(raw[2]),
+    groups: (raw[3] as unknown[]).map((g) => {
+      const [title, cards] = Array.isArray(g) ? g : [];
+      return {
+        title: str(title),
+        cards: (Array.isArray(cards) ? cards : []).map(
+          (c: unknown): CustomCard =>
+            Array.isArray(c)
+              ? { kind: "image", imageUrl: str(c[0]), alt: str(c[1]) }
+              : { kind: "text", text: str(c) },
+        ),
+      };
+    }),
+  };
+}
+
+function puzzleHash(p: CustomPuzzle): string {
+  return contentHash(JSON.stringify(toWire(p)));
+}
+
+/** Key saved progress is stored under; changes whenever the content does. */
+export function customPuzzleKey(p: CustomPuzzle): string {
+  return `custom-${puzzleHash(p)}`;
+}
+
+/**
+ * The puzzle as a NYT-shaped file: categories in difficulty order, cards laid
+ * out in a shuffled grid that is the same for everyone opening the link.
+ */
+export function customPuzzleToNyt(p: CustomPuzzle): NytConnectionsResponse {
+  const random = seededRandom(parseInt(puzzleHash(p), 36));
+  const positions = Array.from(
+    { length: GROUP_COUNT * CARDS_PER_GROUP },
+    (_, i) => i,
+  );
+  for (let i = positions.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+
+  let next = 0;
+  return {
+    status: "OK",
+    id: 0,
+    print_date: fmtLocalYYYYMMDD(new Date()),
+    editor: p.author.trim() || undefined,
+    categories: p.groups.map((g) => ({
+      title: g.title.trim(),
+      cards: g.cards.map((c): NytCard => {
+        const position = positions[next++];
+        return c.kind === "text"
+          ? { content: c.text.trim(), position }
+          : {
+              image_url: c.imageUrl.trim(),
+              image_alt_text: c.alt.trim() || undefined,
+              position,
+            };
+      }),
+    })),
+  };
+}
+
+/** Throws PuzzleValidationError if the puzzle isn't complete. */
+export function customPuzzleToLoaded(p: CustomPuzzle): LoadedPuzzle {
+  const issues = validateCustomPuzzle(p);
+  if (issues.length > 0)
+    throw new PuzzleValidationError("(custom puzzle)", issues);
+
+  const puzzle = parseNytPuzzle(customPuzzleToNyt(p), {
+    source: "(custom puzzle)",
+  });
+  puzzle.meta.custom = {
+    key: customPuzzleKey(p),
+    name: p.name.trim() || undefined,
+  };
+  return puzzle;
+}
+
+/* ---------------- link encoding ---------------- */
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (ch) => ch.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const canCompress = () => typeof CompressionStream !== "undefined";
+
+/** The value for ?custom= (not yet URI-encoded; it is URL-safe already). */
+export async function encodeCustomPuzzle(p: CustomPuzzle): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toWire(p)));
+  if (!canCompress()) return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipeBytes(json, new CompressionStream("deflate-raw")))}`;
+}
+
+export async function decodeCustomPuzzle(
+  encoded: string,
+): Promise<CustomPuzzle> {
+  let json: Uint8Array<ArrayBuffer>;
+  try {
+    const bytes = fromBase64Url(encoded.slice(1));
+    if (encoded[0] === "z") {
+      json = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+    } else if (encoded[0] === "j") {
+      json = bytes;
+    } else {
+      throw new Error("unknown encoding");
+    }
+    return fromWire(JSON.parse(new TextDecoder().decode(json)));
+  } catch (e) {
+    if (e instanceof PuzzleValidationError) throw e;
+    throw new PuzzleValidationError("(shared link)", [
+      { path: "(root)", message: "the link is damaged or incomplete" },
+    ]);
+  }
+}
+
+/** Decode a ?custom= value into a playable puzzle. */
+export async function loadCustomPuzzle(encoded: string): Promise<LoadedPuzzle> {
+  return customPuzzleToLoaded(await decodeCustomPuzzle(encoded));
+}
+
+/** Shareable link that opens the puzzle in `mode` (default: Solve). */
+export async function customPuzzleLink(
+  p: CustomPuzzle,
+  mode?: "solve" | "click" | "drag",
+): Promise<string> {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  if (mode) url.searchParams.set("mode", mode);
+  url.searchParams.set(CUSTOM_PARAM, await encodeCustomPuzzle(p));
+  return url.href;
+}
@@ -0,0 +1,118 @@
+import type { NytIndex, NytIndexEntry } from "./types";
+
+const DAY_MS = 86_400_000;
+const PUZZLE_EPOCH_UTC = Date.UTC(2023, 5, 12); // June 12, 2023 (Puzzle #1)
+
+export function isYMD(s: unknown): s is string {
+  return typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+/** YYYY-MM-DD in *browser local time* */
+export function fmtLocalYYYYMMDD(d: Date) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(d);
+
+  const y = parts.find((p) => p.type === "year")?.value ?? "1970";
+  const m = parts.find((p) => p.type === "month")?.value ?? "01";
+  const day = parts.find((p) => p.type === "day")?.value ?? "01";
+  return `${y}-${m}-${day}`;
+}
+
+export function ymdFromUTCDate(d: Date) {
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+export function monthKeyFromYMD(ymd: string) {
+  return ymd.slice(0, 7); // YYYY-MM
+}
+
+/** Whole days since the Unix epoch for a YYYY-MM-DD calendar date. */
+export function ymdToDayNum(s: string) {
+  const [yy, mm, dd] = s.split("-").map(Number);
+  return Math.floor(Date.UTC(yy, mm - 1, dd) / DAY_MS);
+}
+
+export function formatDateLabel(ymd: string) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(y, m - 1, d); // local calendar date
+
+  return dt.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Public “Connections Puzzle #” derived from NYT print_date (YYYY-MM-DD).
+ * Puzzle #1 = 2023-06-12
+ */
+export function connectionsPuzzleNumber(printDate: string): number {
+  const [y, m, d] = printDate.split("-").map(Number);
+  const dateUtc = Date.UTC(y, m - 1, d);
+  return Math.floor((dateUtc - PUZZLE_EPOCH_UTC) / DAY_MS) + 1;
+}
+
+/** Inverse of connectionsPuzzleNumber; null for anything before Puzzle #1. */
+export function puzzleNumberToPrintDate(puzzleNumber: number): string | null {
+  if (!Number.isFinite(puzzleNumber) || puzzleNumber < 1) return null;
+  const targetUtc = PUZZLE_EPOCH_UTC + (Math.floor(puzzleNumber) - 1) * DAY_MS;
+  return ymdFromUTCDate(new Date(targetUtc));
+}
+
+function closestDate(target: string, datesAsc: string[]): string {
+  const t = ymdToDayNum(target);
+  let best = datesAsc[0];
+  let bestDist = Math.abs(ymdToDayNum(best) - t);
+
+  for (const d of datesAsc) {
+    const dist = Math.abs(ymdToDayNum(d) - t);
+    if (dist < bestDist) {
+      best = d;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+export function nearestAvailableDate(
+  target: string,
+  datesAsc: string[],
+): string | null {
+  if (datesAsc.length === 0) return null;
+  if (datesAsc.includes(target)) return target;
+  return closestDate(target, datesAsc);
+}
+
+export function clampToAvailable(
+  target: string,
+  datesAsc: string[],
+): string | null {
+  if (datesAsc.length === 0) return target; // no availability file? allow any
+  return nearestAvailableDate(target, datesAsc);
+}
+
+export function pickBestDateFromIndex(
+  index: NytIndex,
+  preferredDate: string,
+): string | null {
+  const avail = index.available ?? {};
+  if (avail[preferredDate]?.ok) return preferredDate;
+  if (index.anchor_print_date && avail[index.anchor_print_date]?.ok)
+    return index.anchor_print_date;
+
+  const okDates = Object.values(avail)
+    .filter((v): v is Extract<NytIndexEntry, { ok: true }> => v.ok)
+    .map((v) => v.printDate)
+    .sort();
+
+  if (okDates.length === 0) return null;
+  return closestDate(preferredDate, okDates);
+}
@@ -0,0 +1,10 @@
+// Puzzle domain: types, parsing, date/number mapping and loading.
+// Shared by every tab; nothing in here depends on React.
+export * from "./types";
+export * from "./tiles";
+export * from "./nyt";
+export * from "./validate";
+export * from "./dates";
+export * from "./load";
+export * from "./custom";
+export * from "./open";
@@ -0,0 +1,64 @@
+import { fetchJsonCached } from "../utils/fetchJsonCached";
+import { pickBestDateFromIndex } from "./dates";
+import { parseNytPuzzle } from "./nyt";
+import type { AvailableDatesFile, LoadedPuzzle, NytIndex } from "./types";
+import { PuzzleValidationError } from "./validate";
+
+/** Prefix paths with Vite BASE_URL so it works on GitHub Pages (/connectionsplayground/...). */
+export function nytUrl(path: string) {
+  const base = import.meta.env.BASE_URL; // "/" locally, "/connectionsplayground/" on Pages
+  const clean = path.replace(/^\//, "");
+  return `${base}${clean}`;
+}
+
+/** Sorted dates from available-dates.json (truth from disk); [] if missing. */
+export async function fetchAvailableDates(): Promise<string[]> {
+  try {
+    const data = await fetchJsonCached<AvailableDatesFile>(
+      nytUrl("nyt/available-dates.json"),
+    );
+    return Array.isArray(data.dates) ? data.dates.slice().sort() : [];
+  } catch {
+    return [];
+  }
+}
+
+async function fetchPuzzleFile(
+  path: string,
+  expectedPrintDate?: string,
+): Promise<LoadedPuzzle> {
+  const data = await fetchJsonCached<unknown>(nytUrl(path));
+  return parseNytPuzzle(data, { source: path, expectedPrintDate });
+}
+
+/**
+ * Load the puzzle for a print date, falling back to the closest date listed in
+ * index.json and finally latest.json. Rejects with the last error if all fail.
+ * A file that exists but is malformed is reported (PuzzleValidationError)
+ * rather than silently replaced by a different day's puzzle.
+ */
+export async function fetchPuzzleForDate(
+  dateStr: string,
+): Promise<LoadedPuzzle> {
+  // Try exact date file FIRST (so old dates load properly)
+  try {
+    return await fetchPuzzleFile(`nyt/${dateStr}.json`, dateStr);
+  } catch (e) {
+    if (e instanceof PuzzleValidationError) throw e;
+    // fall through
+  }
+
+  // Then try index.json best match (for near-today window, future, etc.)
+  try {
+    const index = await fetchJsonCached<NytIndex>(nytUrl("nyt/index.json"));
+    const bestDate = pickBestDateFromIndex(index, dateStr);
+    if (bestDate)
+      return await fetchPuzzleFile(`nyt/${bestDate}.json`, bestDate);
+  } catch (e) {
+    if (e instanceof PuzzleValidationError) throw e;
+    // fall through
+  }
+
+  // Finally latest.json
+  return fetchPuzzleFile("nyt/latest.json");
+}
@@ -0,0 +1,81 @@
+import type {
+  ColorKey,
+  LoadedPuzzle,
+  NytCard,
+  NytConnectionsResponse,
+  SolutionGroup,
+  Tile,
+} from "./types";
+import { assertValidNytPuzzle } from "./validate";
+
+// NYT categories are ordered easiest->hardest (yellow->purple)
+const colorByIndex: ColorKey[] = ["yellow", "green", "blue", "purple"];
+
+/** Stable tile id for a card, shared by every tab so saved progress lines up. */
+export function nytTileId(puzzleId: number, position: number) {
+  return `nyt_${puzzleId}_${position}`;
+}
+
+function cardToTile(puzzleId: number, card: NytCard): Tile {
+  if ("content" in card && typeof card.content === "string") {
+    return {
+      id: nytTileId(puzzleId, card.position),
+      kind: "text",
+      text: card.content.toUpperCase(),
+    };
+  }
+
+  if ("image_url" in card && typeof card.image_url === "string") {
+    return {
+      id: nytTileId(puzzleId, card.position),
+      kind: "image",
+      imageUrl: card.image_url,
+      // Cards without alt text are named by grid position so they stay
+      // distinguishable for screen readers and in share text.
+      alt: (card.image_alt_text || `image ${card.position + 1}`).toUpperCase(),
+    };
+  }
+
+  throw new Error("Unsupported NYT card type");
+}
+
+/** All 16 cards as tiles, in grid position order. */
+export function nytToTiles(data: NytConnectionsResponse): Tile[] {
+  const allCards = data.categories.flatMap((c) => c.cards);
+  if (allCards.length !== 16)
+    throw new Error(`Expected 16 cards, got ${allCards.length}`);
+
+  return allCards
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map((card) => cardToTile(data.id, card));
+}
+
+export function nytToSolutionGroups(
+  data: NytConnectionsResponse,
+): SolutionGroup[] {
+  return data.categories.map((cat, i) => {
+    const color = colorByIndex[i] ?? "purple";
+    // Preserve the order in the JSON category definition (NOT grid position order)
+    const tileIds = cat.cards.map((card) => nytTileId(data.id, card.position));
+
+    return { color, title: cat.title, tileIds };
+  });
+}
+
+/**
+ * Turn a raw puzzle file into tiles + solution. Throws PuzzleValidationError
+ * listing every problem if the file can't be played.
+ */
+export function parseNytPuzzle(
+  data: unknown,
+  opts?: { source?: string; expectedPrintDate?: string },
+): LoadedPuzzle {
+  assertValidNytPuzzle(data, opts?.source ?? "puzzle", opts);
+
+  return {
+    meta: { id: data.id, print_date: data.print_date, editor: data.editor },
+    tiles: nytToTiles(data),
+    solutionGroups: nytToSolutionGroups(data),
+  };
+}
@@ -0,0 +1,100 @@
+import { contentHash, customPuzzleToLoaded, type CustomPuzzle } from "./custom";
+import { parseNytPuzzle } from "./nyt";
+import type { LoadedPuzzle } from "./types";
+import { PuzzleValidationError, type PuzzleIssue } from "./validate";
+
+/**
+ * Puzzles opened from a local file or pasted text. Two shapes are accepted:
+ *
+ * - a NytConnectionsResponse, exactly like the files under public/nyt/
+ * - the short form `{ name?, author?, groups: [{ title, words: [4] }] }`,
+ *   groups easiest -> hardest
+ *
+ * Either way progress is saved under a key derived from the content, so
+ * opening the same puzzle again picks up where the player left off.
+ */
+
+// Anything bigger is not a Connections puzzle.
+export const MAX_PUZZLE_FILE_BYTES = 256 * 1024;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function shortFormToCustom(data: Record<string, unknown>, source: string) {
+  const issues: PuzzleIssue[] = [];
+  const groups = Array.isArray(data.groups) ? data.groups : [];
+  const puzzle: CustomPuzzle = {
+    name: typeof data.name === "string" ? data.name : "",
+    author: typeof data.author === "string" ? data.author : "",
+    groups: groups.map((g: unknown, gi) => {
+      const title = isRecord(g) && typeof g.title === "string" ? g.title : "";
+      const words = isRecord(g) && Array.isArray(g.words) ? g.words : null;
+      if (!words)
+        issues.push({
+          path: `groups[${gi}].words`,
+          message: "expected an array of 4 words",
+        });
+      return {
+        title,
+        cards: (words ?? []).map((w: unknown, wi) => {
+          if (typeof w !== "string")
+            issues.push({
+              path: `groups[${gi}].words[${wi}]`,
+              message: "expected a word",
+            });
+          return {
+            kind: "text" as const,
+            text: typeof w === "string" ? w : "",
+          };
+        }),
+      };
+    }),
+  };
+  if (issues.length > 0) throw new PuzzleValidationError(source, issues);
+  return puzzle;
+}
+
+/**
+ * Parse and validate an opened puzzle. `source` names it in errors and, for
+ * NYT-shaped files without a better name, in the tab's meta row. Throws
+ * PuzzleValidationError listing every problem.
+ */
+export function parseOpenedPuzzle(text: string, source: string): LoadedPuzzle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PuzzleValidationError(source, [
+      { path: "(root)", message: "not valid JSON" },
+    ]);
+  }
+
+  if (isRecord(data) && Array.isArray(data.groups)) {
+    let puzzle: LoadedPuzzle;
+    try {
+      puzzle = customPuzzleToLoaded(shortFormToCustom(data, source));
+    } catch (e) {
+      if (!(e instanceof PuzzleValidationError) || e.source === source) throw e;
+      // Report against the file: its name and its `words` arrays.
+      throw new PuzzleValidationError(
+        source,
+        e.issues.map((i) => ({
+          ...i,
+          path: i.path.replace(".cards", ".words"),
+        })),
+      );
+    }
+    const { custom } = puzzle.meta;
+    if (custom) custom.name ??= source;
+    return puzzle;
+  }
+
+  const puzzle = parseNytPuzzle(data, { source });
+  const nyt = data as { id: number; categories: unknown };
+  puzzle.meta.custom = {
+    key: `file-${contentHash(JSON.stringify([nyt.id, nyt.categories]))}`,
+    name: source,
+  };
+  return puzzle;
+}
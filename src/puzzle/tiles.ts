@@ -0,0 +1,50 @@
+import type { Tile } from "./types";
+
+export function uid(prefix = "g") {
+  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
+}
+
+export function isImageTile(t: Tile): t is Extract<Tile, { kind: "image" }> {
+  return t.kind === "image";
+}
+
+export function getTileText(t: Tile): string {
+  // Used for sizing logic + fallback; for images use alt text
+  return isImageTile(t) ? t.alt : t.text;
+}
+
+const smallTextThreshold = 7; // characters
+const tinyTextThreshold = 9; // characters
+
+export function getTileTextSize(t: Tile): string {
+  const text = getTileText(t);
+  const maxStringLength = text
+    .split(" ")
+    .reduce((max, s) => Math.max(max, s.length), 0);
+  if (maxStringLength > smallTextThreshold) {
+    if (maxStringLength > tinyTextThreshold) {
+      return "tinyText";
+    }
+    return "smallText";
+  }
+  return "";
+}
+
+export const fallbackTiles: Tile[] = [
+  { id: "t1", text: "STONE", kind: "text" },
+  { id: "t2", text: "TEMPLE", kind: "text" },
+  { id: "t3", text: "PILOT", kind: "text" },
+  { id: "t4", text: "LIP", kind: "text" },
+  { id: "t5", text: "STREET", kind: "text" },
+  { id: "t6", text: "CHEEK", kind: "text" },
+  { id: "t7", text: "FOOT", kind: "text" },
+  { id: "t8", text: "TRAFFIC", kind: "text" },
+  { id: "t9", text: "EYE", kind: "text" },
+  { id: "t10", text: "ACRE", kind: "text" },
+  { id: "t11", text: "FLOOD", kind: "text" },
+  { id: "t12", text: "METER", kind: "text" },
+  { id: "t13", text: "GARAGE", kind: "text" },
+  { id: "t14", text: "LIME", kind: "text" },
+  { id: "t15", text: "BUSHEL", kind: "text" },
+  { id: "t16", text: "VALET", kind: "text" },
+];
@@ -0,0 +1,95 @@
+export type ColorKey = "yellow" | "green" | "blue" | "purple";
+
+/** Colors in NYT difficulty order (easiest -> hardest). */
+export const COLORS: { key: ColorKey; label: string }[] = [
+  { key: "yellow", label: "Yellow" },
+  { key: "green", label: "Green" },
+  { key: "blue", label: "Blue" },
+  { key: "purple", label: "Purple" },
+];
+
+export function colorLabel(color: ColorKey): string {
+  return COLORS.find((c) => c.key === color)?.label ?? color;
+}
+
+export type Tile =
+  | { id: string; kind: "text"; text: string }
+  | { id: string; kind: "image"; imageUrl: string; alt: string };
+
+export type Group = {
+  id: string;
+  color: ColorKey;
+  title?: string;
+  tileIds: string[]; // exactly 4
+};
+
+/** The real answer for one color, as published in the puzzle file. */
+export type SolutionGroup = {
+  color: ColorKey;
+  title: string;
+  tileIds: string[]; // exactly 4, in the JSON order (NOT grid position order)
+};
+
+export type NytCard =
+  | { content: string; position: number }
+  | { image_url: string; image_alt_text?: string; position: number };
+
+export type NytConnectionsResponse = {
+  status: "OK" | string;
+  id: number;
+  print_date: string; // YYYY-MM-DD
+  editor?: string;
+  categories: Array<{
+    title: string;
+    cards: NytCard[];
+  }>;
+};
+
+export type NytIndexEntry =
+  | { ok: true; printDate: string; id?: number; editor?: string }
+  | {
+      ok: false;
+      printDate: string;
+      status?: number | string;
+      statusText?: string;
+    };
+
+export type NytIndex = {
+  generated_at?: string;
+  timezone?: string;
+  anchor_print_date: string;
+  range?: { from: number; to: number };
+  available: Record<string, NytIndexEntry>;
+};
+
+export type AvailableDatesFile = {
+  generated_at?: string;
+  timezone?: string;
+  dates: string[]; // YYYY-MM-DD[]
+};
+
+export type PuzzleMeta = {
+  id: number;
+  print_date: string;
+  editor?: string;
+  /** Set for puzzles from outside the archive (e.g. editor links). */
+  custom?: { key: string; name?: string };
+};
+
+/** Key a puzzle's saved progress lives under: print date or custom key. */
+export function puzzleStorageKey(meta: PuzzleMeta): string {
+  return meta.custom?.key ?? meta.print_date;
+}
+
+/** Everything a tab needs to render a puzzle, derived from one puzzle file. */
+export type LoadedPuzzle = {
+  meta: PuzzleMeta;
+  tiles: Tile[]; // grid position order
+  solutionGroups: SolutionGroup[]; // yellow -> purple
+};
+
+/** A puzzle handed to the tabs from outside their date picker. */
+export type PuzzleRequest = {
+  label: string; // shown as "Requested …" while loading / on error
+  puzzle: Promise<LoadedPuzzle>;
+};
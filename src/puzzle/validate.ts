@@ -0,0 +1,194 @@
+import { isYMD } from "./dates";
+import type { NytConnectionsResponse } from "./types";
+
+/** One problem found in a puzzle file, e.g. `categories[2].cards[0].position`. */
+export type PuzzleIssue = {
+  path: string;
+  message: string;
+};
+
+/** Thrown when a puzzle file doesn't match the NytConnectionsResponse shape. */
+export class PuzzleValidationError extends Error {
+  readonly issues: PuzzleIssue[];
+  readonly source: string;
+
+  constructor(source: string, issues: PuzzleIssue[]) {
+    const lines = issues.map((i) => `• ${i.path}: ${i.message}`);
+    super([`Invalid puzzle file ${source}:`, ...lines].join("\n"));
+    this.name = "PuzzleValidationError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const CATEGORY_COUNT = 4;
+const CARDS_PER_CATEGORY = 4;
+const TILE_COUNT = CATEGORY_COUNT * CARDS_PER_CATEGORY;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function describe(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return `array(${v.length})`;
+  if (typeof v === "string") return JSON.stringify(v);
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  return typeof v;
+}
+
+/**
+ * Check a parsed puzzle file against the NytConnectionsResponse shape:
+ * 4 titled categories × 4 cards, unique positions 0–15, every card either
+ * text or image, and (when given) a print_date matching the requested file.
+ * Returns every problem found; an empty array means the puzzle is playable.
+ */
+export function validateNytPuzzle(
+  data: unknown,
+  opts?: { expectedPrintDate?: string },
+): PuzzleIssue[] {
+  const issues: PuzzleIssue[] = [];
+  const add = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isRecord(data)) {
+    add("(root)", `expected an object, got ${describe(data)}`);
+    return issues;
+  }
+
+  if (data.status !== "OK") {
+    add("status", `expected "OK", got ${describe(data.status)}`);
+  }
+
+  if (typeof data.id !== "number" || !Number.isInteger(data.id)) {
+    add("id", `expected an integer, got ${describe(data.id)}`);
+  }
+
+  if (!isYMD(data.print_date)) {
+    add("print_date", `expected YYYY-MM-DD, got ${describe(data.print_date)}`);
+  } else if (
+    opts?.expectedPrintDate &&
+    data.print_date !== opts.expectedPrintDate
+  ) {
+    add(
+      "print_date",
+      `expected ${opts.expectedPrintDate}, got ${data.print_date}`,
+    );
+  }
+
+  if (data.editor !== undefined && typeof data.editor !== "string") {
+    add("editor", `expected a string, got ${describe(data.editor)}`);
+  }
+
+  if (!Array.isArray(data.categories)) {
+    add("categories", `expected an array, got ${describe(data.categories)}`);
+    return issues;
+  }
+
+  if (data.categories.length !== CATEGORY_COUNT) {
+    add(
+      "categories",
+      `expected ${CATEGORY_COUNT} categories, got ${data.categories.length}`,
+    );
+  }
+
+  const seenPositions = new Map<number, string>();
+
+  data.categories.forEach((cat: unknown, ci) => {
+    const catPath = `categories[${ci}]`;
+    if (!isRecord(cat)) {
+      add(catPath, `expected an object, got ${describe(cat)}`);
+      return;
+    }
+
+    if (!isNonEmptyString(cat.title)) {
+      add(`${catPath}.title`, `missing title (got ${describe(cat.title)})`);
+    }
+
+    if (!Array.isArray(cat.cards)) {
+      add(`${catPath}.cards`, `expected an array, got ${describe(cat.cards)}`);
+      return;
+    }
+
+    if (cat.cards.length !== CARDS_PER_CATEGORY) {
+      add(
+        `${catPath}.cards`,
+        `expected ${CARDS_PER_CATEGORY} cards, got ${cat.cards.length}`,
+      );
+    }
+
+    cat.cards.forEach((card: unknown, ki) => {
+      const cardPath = `${catPath}.cards[${ki}]`;
+      if (!isRecord(card)) {
+        add(cardPath, `expected an object, got ${describe(card)}`);
+        return;
+      }
+
+      const pos = card.position;
+      if (
+        typeof pos !== "number" ||
+        !Number.isInteger(pos) ||
+        pos < 0 ||
+        pos >= TILE_COUNT
+      ) {
+        add(
+          `${cardPath}.position`,
+          `expected an integer 0–${TILE_COUNT - 1}, got ${describe(pos)}`,
+        );
+      } else if (seenPositions.has(pos)) {
+        add(
+          `${cardPath}.position`,
+          `duplicate position ${pos} (also used by ${seenPositions.get(pos)})`,
+        );
+      } else {
+        seenPositions.set(pos, cardPath);
+      }
+
+      const hasText = card.content !== undefined;
+      const hasImage = card.image_url !== undefined;
+      if (hasText && hasImage) {
+        add(cardPath, "has both content and image_url");
+      } else if (hasText) {
+        if (!isNonEmptyString(card.content)) {
+          add(
+            `${cardPath}.content`,
+            `expected text, got ${describe(card.content)}`,
+          );
+        }
+      } else if (hasImage) {
+        if (!isNonEmptyString(card.image_url)) {
+          add(
+            `${cardPath}.image_url`,
+            `expected a URL, got ${describe(card.image_url)}`,
+          );
+        }
+        if (
+          card.image_alt_text !== undefined &&
+          typeof card.image_alt_text !== "string"
+        ) {
+          add(
+            `${cardPath}.image_alt_text`,
+            `expected a string, got ${describe(card.image_alt_text)}`,
+          );
+        }
+      } else {
+        add(cardPath, "expected content (text) or image_url (image)");
+      }
+    });
+  });
+
+  return issues;
+}
+
+/** Throwing variant of validateNytPuzzle; narrows `data` on success. */
+export function assertValidNytPuzzle(
+  data: unknown,
+  source: string,
+  opts?: { expectedPrintDate?: string },
+): asserts data is NytConnectionsResponse {
+  const issues = validateNytPuzzle(data, opts);
+  if (issues.length > 0) throw new PuzzleValidationError(source, issues);
+}
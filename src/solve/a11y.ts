@@ -0,0 +1,39 @@
+import { colorLabel, type ColorKey } from "../puzzle";
+
+/* Screen-reader text for Solve events and results. */
+
+function mistakesLeftText(n: number) {
+  return `${n} mistake${n === 1 ? "" : "s"} left.`;
+}
+
+export function correctGuessText(color: ColorKey, title: string) {
+  return `Correct: ${colorLabel(color).toLowerCase()}, ${title}.`;
+}
+
+export function wrongGuessText(opts: {
+  oneAway: boolean;
+  repeat: boolean;
+  mistakesLeft: number;
+}) {
+  const what = opts.repeat
+    ? "Already guessed."
+    : opts.oneAway
+      ? "One away."
+      : "Incorrect.";
+  return `${what} ${mistakesLeftText(opts.mistakesLeft)}`;
+}
+
+/** One results-grid row as text, e.g. "Guess 2: yellow, yellow, green, yellow". */
+export function guessRowText(
+  colors: ColorKey[],
+  index: number,
+  hinted: boolean,
+) {
+  const names = colors.map((c) => colorLabel(c).toLowerCase());
+  const solved = colors.length === 4 && colors.every((c) => c === colors[0]);
+  return (
+    `Guess ${index + 1}: ` +
+    (solved ? `${names[0]} group found` : names.join(", ")) +
+    (hinted ? " (after a hint)" : "")
+  );
+}
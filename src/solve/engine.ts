@@ -0,0 +1,322 @@
+import type { ColorKey, Group, SolutionGroup } from "../puzzle";
+import type { GuessOutcome, GuessRow } from "./savedState";
+
+/**
+ * The Solve rules as a pure reducer, with no React or timing in it. A game is
+ * the list of events the player produced; the board is whatever replaying
+ * them gives. Each step also returns outcomes (correct, one away, failed…)
+ * for the UI to animate and announce.
+ *
+ * Events the rules don't allow (a fifth selection, a submit after the game
+ * is over…) leave the state untouched and are not worth logging.
+ */
+
+export type SolveEvent =
+  | { type: "select"; tileId: string }
+  | { type: "deselect"; tileId: string }
+  | { type: "deselectAll" }
+  | { type: "submit" }
+  | { type: "shuffle"; order: string[] } // the unsolved tiles' new order
+  | { type: "reveal" } // give up / out of time: fill in the rest
+  | { type: "practice" }; // out of mistakes, but keep guessing
+
+export type SolveRules = {
+  tileIds: string[]; // board order before any shuffle
+  solutionGroups: SolutionGroup[];
+  hard: boolean; // no "one away", repeats cost a mistake
+  mistakeBudget: number;
+  words: Record<string, string>; // card text by tile id, kept with guesses
+};
+
+export type SolveEngineState = {
+  order: string[]; // unsolved tiles, in board order
+  selected: string[]; // in click order
+  groups: Group[]; // found (then revealed) groups, in order
+  guesses: GuessRow[];
+  guessedKeys: string[]; // see guessKey()
+  mistakesRemaining: number;
+  failed: boolean;
+  // Guessing on after failing; those guesses are marked `postFail`.
+  practice: boolean;
+};
+
+/** Progress of a game saved before the event log existed; replay starts here. */
+export type SolveStart = Pick<
+  SolveEngineState,
+  "groups" | "guesses" | "guessedKeys" | "mistakesRemaining" | "failed"
+>;
+
+export type EngineOutcome =
+  | { type: "duplicate"; tileIds: string[] } // normal mode: no penalty
+  | {
+      type: "wrong";
+      tileIds: string[];
+      oneAway: boolean;
+      repeat: boolean; // hard mode only
+      mistakesLeft: number;
+    }
+  | { type: "correct"; tileIds: string[]; group: Group }
+  | { type: "solved" }
+  | { type: "failed" }
+  | { type: "revealed"; groups: Group[] };
+
+export type SolveStep = {
+  state: SolveEngineState; // the same object when the event changed nothing
+  outcomes: EngineOutcome[];
+};
+
+/** Order-independent key for a set of four tiles. */
+export function guessKey(tileIds: string[]) {
+  return tileIds.slice().sort().join("|");
+}
+
+export function isGameOver(state: SolveEngineState) {
+  return (state.failed && !state.practice) || state.groups.length === 4;
+}
+
+function solvedGroup(sg: SolutionGroup): Group {
+  return {
+    id: `group-${sg.color}`,
+    color: sg.color,
+    title: sg.title,
+    tileIds: sg.tileIds,
+  };
+}
+
+function unsolvedGroups(rules: SolveRules, state: SolveEngineState) {
+  return rules.solutionGroups.filter(
+    (sg) => !state.groups.some((g) => g.color === sg.color),
+  );
+}
+
+function colorOf(rules: SolveRules, tileId: string): ColorKey {
+  return (
+    rules.solutionGroups.find((sg) => sg.tileIds.includes(tileId))?.color ??
+    "purple"
+  );
+}
+
+export function initialSolveState(
+  rules: SolveRules,
+  start?: SolveStart | null,
+): SolveEngineState {
+  const grouped = new Set(start?.groups.flatMap((g) => g.tileIds));
+  return {
+    order: rules.tileIds.filter((id) => !grouped.has(id)),
+    selected: [],
+    groups: start?.groups ?? [],
+    guesses: start?.guesses ?? [],
+    guessedKeys: start?.guessedKeys ?? [],
+    mistakesRemaining: start?.mistakesRemaining ?? rules.mistakeBudget,
+    failed: start?.failed ?? false,
+    practice: false,
+  };
+}
+
+/* ---------------- reducer ---------------- */
+
+function submit(rules: SolveRules, state: SolveEngineState): SolveStep {
+  if (isGameOver(state) || state.selected.length !== 4) {
+    return { state, outcomes: [] };
+  }
+  if (state.mistakesRemaining <= 0 && !state.practice) {
+    return { state, outcomes: [] };
+  }
+
+  const picked = state.selected;
+  const key = guessKey(picked);
+  const repeat = state.guessedKeys.includes(key);
+  // Outside hard mode a repeat is just pointed out.
+  if (repeat && !rules.hard) {
+    return { state, outcomes: [{ type: "duplicate", tileIds: picked }] };
+  }
+
+  const unsolved = unsolvedGroups(rules, state);
+  const match = unsolved.find((sg) => guessKey(sg.tileIds) === key);
+  const pickedSet = new Set(picked);
+  const oneAway =
+    !match &&
+    !rules.hard &&
+    unsolved.some(
+      (sg) => sg.tileIds.filter((id) => pickedSet.has(id)).length === 3,
+    );
+  const outcome: GuessOutcome = match
+    ? "correct"
+    : repeat
+      ? "duplicate"
+      : oneAway
+        ? "one-away"
+        : "wrong";
+  const guesses = [
+    ...state.guesses,
+    {
+      id: `guess-${state.guesses.length + 1}`,
+      colors: picked.map((id) => colorOf(rules, id)),
+      outcome,
+      tileIds: picked,
+      words: picked.map((id) => rules.words[id] ?? ""),
+      ...(state.practice ? { postFail: true } : {}),
+    },
+  ];
+  const guessedKeys = repeat ? state.guessedKeys : [...state.guessedKeys, key];
+
+  if (!match) {
+    // Practice guesses are free.
+    const mistakesRemaining = state.practice
+      ? state.mistakesRemaining
+      : Math.max(0, state.mistakesRemaining - 1);
+    const outcomes: EngineOutcome[] = [
+      {
+        type: "wrong",
+        tileIds: picked,
+        oneAway,
+        repeat,
+        mistakesLeft: mistakesRemaining,
+      },
+    ];
+    if (mistakesRemaining === 0 && !state.failed) {
+      outcomes.push({ type: "failed" });
+    }
+    // The selection stays, so the player can swap a single tile.
+    return {
+      state: {
+        ...state,
+        guesses,
+        guessedKeys,
+        mistakesRemaining,
+        failed: state.failed || mistakesRemaining === 0,
+      },
+      outcomes,
+    };
+  }
+
+  const group = solvedGroup(match);
+  const solvedIds = new Set(match.tileIds);
+  const groups = [...state.groups, group];
+  const outcomes: EngineOutcome[] = [
+    { type: "correct", tileIds: picked, group },
+  ];
+  if (groups.length === 4) outcomes.push({ type: "solved" });
+  return {
+    state: {
+      ...state,
+      order: state.order.filter((id) => !solvedIds.has(id)),
+      selected: [],
+      groups,
+      guesses,
+      guessedKeys,
+    },
+    outcomes,
+  };
+}
+
+function reveal(rules: SolveRules, state: SolveEngineState): SolveStep {
+  if (state.groups.length === 4) return { state, outcomes: [] };
+  const revealed = unsolvedGroups(rules, state).map(solvedGroup);
+  const outcomes: EngineOutcome[] = state.failed ? [] : [{ type: "failed" }];
+  outcomes.push({ type: "revealed", groups: revealed });
+  return {
+    state: {
+      ...state,
+      order: [],
+      selected: [],
+      groups: [...state.groups, ...revealed],
+      failed: true,
+    },
+    outcomes,
+  };
+}
+
+export function reduceSolve(
+  rules: SolveRules,
+  state: SolveEngineState,
+  event: SolveEvent,
+): SolveStep {
+  const unchanged: SolveStep = { state, outcomes: [] };
+
+  switch (event.type) {
+    case "select": {
+      const id = event.tileId;
+      if (isGameOver(state) || state.selected.length >= 4) return unchanged;
+      if (!state.order.includes(id) || state.selected.includes(id)) {
+        return unchanged;
+      }
+      return {
+        state: { ...state, selected: [...state.selected, id] },
+        outcomes: [],
+      };
+    }
+    case "deselect":
+      if (!state.selected.includes(event.tileId)) return unchanged;
+      return {
+        state: {
+          ...state,
+          selected: state.selected.filter((id) => id !== event.tileId),
+        },
+        outcomes: [],
+      };
+    case "deselectAll":
+      if (state.selected.length === 0) return unchanged;
+      return { state: { ...state, selected: [] }, outcomes: [] };
+    case "shuffle": {
+      // Must be a reordering of exactly the unsolved tiles.
+      const current = new Set(state.order);
+      const next = new Set(event.order);
+      if (
+        event.order.length !== state.order.length ||
+        next.size !== current.size ||
+        event.order.some((id) => !current.has(id))
+      ) {
+        return unchanged;
+      }
+      return {
+        state: { ...state, order: [...event.order], selected: [] },
+        outcomes: [],
+      };
+    }
+    case "submit":
+      return submit(rules, state);
+    case "reveal":
+      return reveal(rules, state);
+    case "practice":
+      if (!state.failed || state.practice || state.groups.length === 4) {
+        return unchanged;
+      }
+      return { state: { ...state, practice: true }, outcomes: [] };
+    default:
+      return unchanged;
+  }
+}
+
+/** The state after `events`, starting fresh or from a pre-log snapshot. */
+export function replaySolve(
+  rules: SolveRules,
+  events: SolveEvent[],
+  start?: SolveStart | null,
+): SolveEngineState {
+  let state = initialSolveState(rules, start);
+  for (const event of events) state = reduceSolve(rules, state, event).state;
+  return state;
+}
+
+export type ReplayStep = SolveStep & {
+  event: SolveEvent;
+  before: SolveEngineState;
+};
+
+/** Every event that changed the board, with the states either side of it. */
+export function replaySteps(
+  rules: SolveRules,
+  events: SolveEvent[],
+  start?: SolveStart | null,
+): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  let state = initialSolveState(rules, start);
+  for (const event of events) {
+    const step = reduceSolve(rules, state, event);
+    if (step.state === state) continue;
+    steps.push({ ...step, event, before: state });
+    state = step.state;
+  }
+  return steps;
+}
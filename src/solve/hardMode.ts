@@ -0,0 +1,50 @@
+import { getSetting, setSetting } from "../utils/persistence";
+import type { SavedSolveState } from "./savedState";
+
+/**
+ * Hard mode: no "One away…" feedback, repeated guesses cost a mistake, and
+ * the mistake budget can be lowered below the usual 4. Results are kept apart
+ * from normal-mode results in stats and marked in the share text.
+ */
+export type HardMode = {
+  mistakeBudget: number; // 1–4
+};
+
+export const NORMAL_MISTAKE_BUDGET = 4;
+export const HARD_MISTAKE_BUDGETS = [4, 3, 2, 1];
+
+export const HARD_EMOJI = "🔥";
+
+export type SolveModeKey = "normal" | "hard";
+
+function cleanBudget(raw: unknown): number {
+  return typeof raw === "number" && HARD_MISTAKE_BUDGETS.includes(raw)
+    ? raw
+    : NORMAL_MISTAKE_BUDGET;
+}
+
+export function mistakeBudget(hard: HardMode | null | undefined): number {
+  return hard ? hard.mistakeBudget : NORMAL_MISTAKE_BUDGET;
+}
+
+export function solveModeOf(state: SavedSolveState): SolveModeKey {
+  return state.hard ? "hard" : "normal";
+}
+
+export function cleanSavedHardMode(raw: unknown): HardMode | null {
+  if (!raw || typeof raw !== "object") return null;
+  return { mistakeBudget: cleanBudget((raw as HardMode).mistakeBudget) };
+}
+
+/* ---------------- preferred mode for new puzzles ---------------- */
+
+// Stored as "off" | "hard:<mistakeBudget>".
+export function loadHardModePreference(): HardMode | null {
+  const raw = getSetting("solveHardMode");
+  if (!raw?.startsWith("hard:")) return null;
+  return { mistakeBudget: cleanBudget(Number(raw.slice("hard:".length))) };
+}
+
+export function saveHardModePreference(hard: HardMode | null) {
+  setSetting("solveHardMode", hard ? `hard:${hard.mistakeBudget}` : "off");
+}
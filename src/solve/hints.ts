@@ -0,0 +1,71 @@
+import type { ColorKey, SolutionGroup } from "../puzzle";
+
+/**
+ * Graded hints, weakest to strongest:
+ * - "pair":  does the current 4-tile selection contain two tiles from the same
+ *            (unsolved) group?
+ * - "title": reveal the category title for a color
+ * - "tile":  reveal one tile that belongs to a color
+ */
+export type HintKind = "pair" | "title" | "tile";
+
+export type HintRecord = {
+  kind: HintKind;
+  color?: ColorKey; // "title" + "tile"
+  tileId?: string; // "tile"
+  shared?: boolean; // "pair": answer given to the player
+  /** number of guesses submitted before the hint was taken */
+  atGuess: number;
+};
+
+export const HINT_EMOJI = "💡";
+
+// Revealing the 4th tile of a group would just hand over the answer.
+export const MAX_TILE_HINTS_PER_COLOR = 3;
+
+export function revealedTileIds(hints: HintRecord[]): Set<string> {
+  const s = new Set<string>();
+  for (const h of hints) if (h.kind === "tile" && h.tileId) s.add(h.tileId);
+  return s;
+}
+
+export function revealedTitleColors(hints: HintRecord[]): Set<ColorKey> {
+  const s = new Set<ColorKey>();
+  for (const h of hints) if (h.kind === "title" && h.color) s.add(h.color);
+  return s;
+}
+
+/** Tiles of `color` that a "tile" hint could still reveal. */
+export function tileHintCandidates(
+  solutionGroups: SolutionGroup[],
+  color: ColorKey,
+  hints: HintRecord[],
+): string[] {
+  const sg = solutionGroups.find((g) => g.color === color);
+  if (!sg) return [];
+  const revealed = revealedTileIds(hints);
+  const already = sg.tileIds.filter((id) => revealed.has(id)).length;
+  if (already >= MAX_TILE_HINTS_PER_COLOR) return [];
+  return sg.tileIds.filter((id) => !revealed.has(id));
+}
+
+/** True if any two of `tileIds` belong to the same solution group. */
+export function selectionSharesPair(
+  solutionGroups: SolutionGroup[],
+  tileIds: string[],
+): boolean {
+  const picked = new Set(tileIds);
+  return solutionGroups.some(
+    (sg) => sg.tileIds.filter((id) => picked.has(id)).length >= 2,
+  );
+}
+
+/** For each guess row, whether a hint was taken just before it. */
+export function hintedGuessRows(
+  hints: HintRecord[],
+  guessCount: number,
+): boolean[] {
+  const rows = Array.from({ length: guessCount }, () => false);
+  for (const h of hints) if (h.atGuess < guessCount) rows[h.atGuess] = true;
+  return rows;
+}
@@ -0,0 +1,359 @@
+import { COLORS, uid, type ColorKey, type Group } from "../puzzle";
+import { listRecords, readRecord, writeRecord } from "../utils/persistence";
+import type { HintKind, HintRecord } from "./hints";
+import { cleanSavedTimer, type SavedTimer } from "./timer";
+import { cleanSavedHardMode, mistakeBudget, type HardMode } from "./hardMode";
+import type { SolveEvent, SolveStart } from "./engine";
+
+export type GuessOutcome = "correct" | "one-away" | "wrong" | "duplicate";
+
+export type GuessRow = {
+  id: string;
+  colors: ColorKey[]; // length 4
+  outcome: GuessOutcome;
+  // In the order picked; absent on rows saved before words were recorded.
+  tileIds?: string[];
+  words?: string[];
+  postFail?: boolean; // practice guess after running out of mistakes
+};
+
+/* ---------------- persist Solve progress (event log + summary) ---------------- */
+
+type SavedGroup = Pick<Group, "id" | "color" | "tileIds"> & { title?: string };
+type SavedGuess = Partial<GuessRow>;
+
+/**
+ * The game itself is `events`, replayed against the puzzle on load. `groups`,
+ * `guesses`, `mistakesRemaining` and `didFail` are a summary of where that
+ * leaves things, for views that don't load the puzzle (stats, packs, archive).
+ */
+export type SavedSolveState = {
+  events?: SolveEvent[];
+  /** games saved before the event log: the progress it continues from */
+  start?: {
+    groups?: SavedGroup[];
+    guesses?: SavedGuess[];
+    guessedKeys?: string[];
+    mistakesRemaining?: number;
+    failed?: boolean;
+  };
+  groups?: SavedGroup[];
+  guesses?: SavedGuess[];
+  guessedKeys?: string[]; // pre-event-log saves only
+  mistakesRemaining?: number;
+  resultsDismissed?: boolean;
+  didFail?: boolean;
+  practice?: boolean; // kept guessing after failing
+  marks?: Record<string, ColorKey>; // pencil marks on unsolved tiles
+  hints?: HintRecord[];
+  timer?: SavedTimer; // absent when played without a clock
+  hard?: HardMode; // absent in normal mode
+};
+
+export type LoadedSolveState = {
+  events: SolveEvent[];
+  start: SolveStart | null;
+  groups: Group[];
+  guesses: GuessRow[];
+  mistakesRemaining: number;
+  resultsDismissed: boolean;
+  didFail: boolean;
+  practice: boolean;
+  marks: Record<string, ColorKey>;
+  hints: HintRecord[];
+  timer: SavedTimer | null;
+  hard: HardMode | null;
+};
+
+function emptySolveState(): LoadedSolveState {
+  return {
+    events: [],
+    start: null,
+    groups: [],
+    guesses: [],
+    mistakesRemaining: 4,
+    resultsDismissed: false, // always re-show results overlay after refresh
+    didFail: false,
+    practice: false,
+    marks: {},
+    hints: [],
+    timer: null,
+    hard: null,
+  };
+}
+
+const HINT_KINDS: HintKind[] = ["pair", "title", "tile"];
+
+function cleanHints(raw: unknown, validTileIds?: Set<string>): HintRecord[] {
+  if (!Array.isArray(raw)) return [];
+  const out: HintRecord[] = [];
+  for (const h of raw as Array<Partial<HintRecord> | null>) {
+    if (!h || !HINT_KINDS.includes(h.kind as HintKind)) continue;
+    const atGuess =
+      typeof h.atGuess === "number" && Number.isFinite(h.atGuess)
+        ? Math.max(0, Math.floor(h.atGuess))
+        : 0;
+    if (h.kind === "pair") {
+      out.push({ kind: "pair", shared: Boolean(h.shared), atGuess });
+      continue;
+    }
+    if (!COLORS.some((c) => c.key === h.color)) continue;
+    if (h.kind === "title") {
+      out.push({ kind: "title", color: h.color, atGuess });
+      continue;
+    }
+    if (typeof h.tileId !== "string") continue;
+    if (validTileIds && !validTileIds.has(h.tileId)) continue;
+    out.push({ kind: "tile", color: h.color, tileId: h.tileId, atGuess });
+  }
+  return out;
+}
+
+function validIds(ids: unknown, validTileIds?: Set<string>) {
+  return (
+    Array.isArray(ids) &&
+    ids.every(
+      (id) => typeof id === "string" && (!validTileIds || validTileIds.has(id)),
+    )
+  );
+}
+
+function cleanGroups(raw: unknown, validTileIds?: Set<string>): Group[] {
+  if (!Array.isArray(raw)) return [];
+  const out: Group[] = [];
+  for (const g of raw as Array<SavedGroup | null>) {
+    if (!g || !Array.isArray(g.tileIds) || g.tileIds.length !== 4) continue;
+    if (!g.color) continue;
+    if (!validIds(g.tileIds, validTileIds)) continue;
+    out.push({
+      id: typeof g.id === "string" ? g.id : uid("group"),
+      color: g.color as ColorKey,
+      title: typeof g.title === "string" ? g.title : undefined,
+      tileIds: g.tileIds,
+    });
+  }
+  return out;
+}
+
+const GUESS_OUTCOMES: GuessOutcome[] = [
+  "correct",
+  "one-away",
+  "wrong",
+  "duplicate",
+];
+
+/**
+ * Best guess at a colors-only row's outcome. Three of one color was a
+ * "one away" (never shown in hard mode); repeats can't be told apart.
+ */
+function inferGuessOutcome(colors: ColorKey[], hard: boolean): GuessOutcome {
+  if (colors.every((c) => c === colors[0])) return "correct";
+  const most = Math.max(
+    ...colors.map((c) => colors.filter((x) => x === c).length),
+  );
+  return most === 3 && !hard ? "one-away" : "wrong";
+}
+
+function cleanGuesses(
+  raw: unknown,
+  hard: boolean,
+  validTileIds?: Set<string>,
+): GuessRow[] {
+  if (!Array.isArray(raw)) return [];
+  const out: GuessRow[] = [];
+  for (const gr of raw as Array<SavedGuess | null>) {
+    if (!gr || typeof gr.id !== "string") continue;
+    if (!Array.isArray(gr.colors) || gr.colors.length !== 4) continue;
+    if (!gr.colors.every((c) => COLORS.some((x) => x.key === c))) continue;
+    const colors = gr.colors as ColorKey[];
+    const row: GuessRow = {
+      id: gr.id,
+      colors,
+      outcome: GUESS_OUTCOMES.includes(gr.outcome as GuessOutcome)
+        ? (gr.outcome as GuessOutcome)
+        : inferGuessOutcome(colors, hard),
+    };
+    if (gr.postFail) row.postFail = true;
+    if (gr.tileIds?.length === 4 && validIds(gr.tileIds, validTileIds)) {
+      row.tileIds = gr.tileIds;
+      if (
+        Array.isArray(gr.words) &&
+        gr.words.length === 4 &&
+        gr.words.every((w) => typeof w === "string")
+      )
+        row.words = gr.words;
+    }
+    out.push(row);
+  }
+  return out;
+}
+
+function cleanGuessedKeys(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (k): k is string => typeof k === "string" && k.split("|").length === 4,
+  );
+}
+
+function cleanMistakesRemaining(raw: unknown, budget: number) {
+  return typeof raw === "number" && Number.isFinite(raw)
+    ? Math.max(0, Math.min(budget, Math.floor(raw)))
+    : budget;
+}
+
+function cleanMarks(
+  raw: unknown,
+  validTileIds?: Set<string>,
+): Record<string, ColorKey> {
+  const out: Record<string, ColorKey> = {};
+  if (!raw || typeof raw !== "object") return out;
+  for (const [id, c] of Object.entries(raw)) {
+    if (validTileIds && !validTileIds.has(id)) continue;
+    if (COLORS.some((x) => x.key === c)) out[id] = c as ColorKey;
+  }
+  return out;
+}
+
+// Shape only: the engine ignores events the puzzle doesn't allow.
+function cleanEvents(raw: unknown, validTileIds?: Set<string>): SolveEvent[] {
+  if (!Array.isArray(raw)) return [];
+  const out: SolveEvent[] = [];
+  for (const e of raw as Array<Partial<Record<string, unknown>> | null>) {
+    if (!e) continue;
+    switch (e.type) {
+      case "select":
+      case "deselect":
+        if (validIds([e.tileId], validTileIds)) {
+          out.push({ type: e.type, tileId: e.tileId as string });
+        }
+        break;
+      case "shuffle":
+        if (validIds(e.order, validTileIds)) {
+          out.push({ type: "shuffle", order: e.order as string[] });
+        }
+        break;
+      case "deselectAll":
+      case "submit":
+      case "reveal":
+      case "practice":
+        out.push({ type: e.type });
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalize a saved Solve state. Without `validTileIds` (e.g. when importing
+ * progress for a puzzle that isn't loaded) any string tile ids are accepted.
+ *
+ * Saves from before the event log have no `events`; their progress becomes
+ * the `start` that new events continue from.
+ */
+export function cleanSavedSolveState(
+  raw: unknown,
+  validTileIds?: Set<string>,
+): LoadedSolveState {
+  if (!raw || typeof raw !== "object") return emptySolveState();
+  const parsed = raw as SavedSolveState;
+
+  const hard = cleanSavedHardMode(parsed.hard);
+  const budget = mistakeBudget(hard);
+  const groups = cleanGroups(parsed.groups, validTileIds);
+  const guesses = cleanGuesses(parsed.guesses, hard !== null, validTileIds);
+  const mistakesRemaining = cleanMistakesRemaining(
+    parsed.mistakesRemaining,
+    budget,
+  );
+  const didFail = Boolean(parsed.didFail);
+
+  let start: SolveStart | null = null;
+  if (Array.isArray(parsed.events)) {
+    const s = parsed.start;
+    if (s && typeof s === "object") {
+      start = {
+        groups: cleanGroups(s.groups, validTileIds),
+        guesses: cleanGuesses(s.guesses, hard !== null, validTileIds),
+        guessedKeys: cleanGuessedKeys(s.guessedKeys),
+        mistakesRemaining: cleanMistakesRemaining(s.mistakesRemaining, budget),
+        failed: Boolean(s.failed),
+      };
+    }
+  } else if (groups.length > 0 || guesses.length > 0) {
+    start = {
+      groups,
+      guesses,
+      guessedKeys: cleanGuessedKeys(parsed.guessedKeys),
+      mistakesRemaining,
+      failed: didFail,
+    };
+  }
+
+  return {
+    events: cleanEvents(parsed.events, validTileIds),
+    start,
+    groups,
+    guesses,
+    mistakesRemaining,
+    resultsDismissed: false, // always re-show results overlay after refresh
+    didFail,
+    practice: Boolean(parsed.practice),
+    marks: cleanMarks(parsed.marks, validTileIds),
+    hints: cleanHints(parsed.hints, validTileIds),
+    timer: cleanSavedTimer(parsed.timer),
+    hard,
+  };
+}
+
+/**
+ * The stored shape of a cleaned state, with unused fields left out as
+ * `saveSolveState` callers do. A pre-event-log game that hasn't been played
+ * since stays in that form rather than gaining a `start`.
+ */
+export function toSavedSolveState(state: LoadedSolveState): SavedSolveState {
+  const legacy = state.events.length === 0 && state.start !== null;
+  return {
+    ...(legacy
+      ? { guessedKeys: state.start?.guessedKeys }
+      : { events: state.events, start: state.start ?? undefined }),
+    groups: state.groups,
+    guesses: state.guesses,
+    mistakesRemaining: state.mistakesRemaining,
+    resultsDismissed: state.resultsDismissed || undefined,
+    didFail: state.didFail,
+    practice: state.practice || undefined,
+    marks: Object.keys(state.marks).length > 0 ? state.marks : undefined,
+    hints: state.hints,
+    timer: state.timer ?? undefined,
+    hard: state.hard ?? undefined,
+  };
+}
+
+export function loadSavedSolveState(
+  printDate: string,
+  validTileIds: Set<string>,
+): LoadedSolveState {
+  try {
+    const parsed = readRecord<SavedSolveState>("solve", printDate)?.data;
+    return cleanSavedSolveState(parsed, validTileIds);
+  } catch {
+    return emptySolveState();
+  }
+}
+
+export function saveSolveState(printDate: string, state: SavedSolveState) {
+  writeRecord("solve", printDate, state);
+}
+
+/**
+ * Every print date with saved Solve progress, oldest first. States are parsed
+ * but not checked against the puzzle's tile ids (that needs the puzzle file).
+ */
+export function listSavedSolveStates(): Array<{
+  printDate: string;
+  state: SavedSolveState;
+}> {
+  return listRecords<SavedSolveState>("solve")
+    .filter((r) => r.data && typeof r.data === "object")
+    .map((r) => ({ printDate: r.printDate, state: r.data }));
+}
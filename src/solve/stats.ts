@@ -0,0 +1,136 @@
+import { COLORS, ymdToDayNum, type ColorKey } from "../puzzle";
+import type { SavedSolveState } from "./savedState";
+import { cleanSavedHardMode, mistakeBudget } from "./hardMode";
+
+export type SolveOutcome = "won" | "failed" | "in-progress";
+
+export type SolveStats = {
+  gamesPlayed: number; // finished games (won or failed)
+  inProgress: number;
+  wins: number;
+  winPct: number; // 0–100, rounded
+  perfect: number; // won without a single mistake or hint
+  hinted: number; // won with at least one hint
+  practiced: number; // failed, then kept guessing (still a loss)
+  currentStreak: number;
+  maxStreak: number;
+  /** index = mistakes used (0–4); failed games land in the last bucket */
+  mistakesHistogram: number[];
+  /** per color: how often it was solved 1st, 2nd, 3rd, 4th */
+  colorSolveOrder: Record<ColorKey, number[]>;
+};
+
+const MAX_MISTAKES = 4;
+
+export function solveOutcome(state: SavedSolveState): SolveOutcome {
+  if (state.didFail) return "failed";
+  if (Array.isArray(state.groups) && state.groups.length === 4) return "won";
+  return "in-progress";
+}
+
+/**
+ * Outcome for list views (packs, archive). Opening a puzzle saves an empty
+ * state, which doesn't count as playing it.
+ */
+export function playStatus(
+  state: SavedSolveState | undefined,
+): SolveOutcome | "unplayed" {
+  if (!state) return "unplayed";
+  const outcome = solveOutcome(state);
+  return outcome === "in-progress" && !state.guesses?.length
+    ? "unplayed"
+    : outcome;
+}
+
+export function mistakesUsed(state: SavedSolveState): number {
+  const budget = mistakeBudget(cleanSavedHardMode(state.hard));
+  const mr = state.mistakesRemaining;
+  if (typeof mr !== "number" || !Number.isFinite(mr)) return 0;
+  return budget - Math.max(0, Math.min(budget, Math.floor(mr)));
+}
+
+/**
+ * Colors the player actually solved, in order. Derived from the guess rows
+ * (a correct guess is four squares of one color) so groups filled in by the
+ * reveal after a failure, or found in practice after it, don't count.
+ */
+export function solvedColorOrder(state: SavedSolveState): ColorKey[] {
+  const out: ColorKey[] = [];
+  for (const g of state.guesses ?? []) {
+    if (g?.postFail) continue;
+    const colors = Array.isArray(g?.colors) ? g.colors : [];
+    if (colors.length !== 4) continue;
+    if (colors.every((c) => c === colors[0]) && !out.includes(colors[0])) {
+      out.push(colors[0]);
+    }
+  }
+  return out;
+}
+
+/** Aggregate stats over every saved Solve state, keyed by print date. */
+export function computeSolveStats(
+  entries: Array<{ printDate: string; state: SavedSolveState }>,
+): SolveStats {
+  const stats: SolveStats = {
+    gamesPlayed: 0,
+    inProgress: 0,
+    wins: 0,
+    winPct: 0,
+    perfect: 0,
+    hinted: 0,
+    practiced: 0,
+    currentStreak: 0,
+    maxStreak: 0,
+    mistakesHistogram: Array.from({ length: MAX_MISTAKES + 1 }, () => 0),
+    colorSolveOrder: Object.fromEntries(
+      COLORS.map((c) => [c.key, [0, 0, 0, 0]]),
+    ) as Record<ColorKey, number[]>,
+  };
+
+  const sorted = entries
+    .slice()
+    .sort((a, b) => a.printDate.localeCompare(b.printDate));
+
+  // Streaks follow print dates: a run of consecutive days, each one won.
+  let run = 0;
+  let prevWonDay: number | null = null;
+
+  for (const { printDate, state } of sorted) {
+    const outcome = solveOutcome(state);
+    if (outcome === "in-progress") {
+      if ((state.guesses ?? []).length > 0) stats.inProgress++;
+      continue;
+    }
+
+    stats.gamesPlayed++;
+    const used = mistakesUsed(state);
+    stats.mistakesHistogram[outcome === "failed" ? MAX_MISTAKES : used]++;
+
+    solvedColorOrder(state).forEach((color, i) => {
+      if (stats.colorSolveOrder[color]) stats.colorSolveOrder[color][i]++;
+    });
+
+    const day = ymdToDayNum(printDate);
+    if (outcome === "won") {
+      stats.wins++;
+      const hintCount = Array.isArray(state.hints) ? state.hints.length : 0;
+      if (hintCount > 0) stats.hinted++;
+      else if (used === 0) stats.perfect++;
+      run = prevWonDay !== null && day === prevWonDay + 1 ? run + 1 : 1;
+      prevWonDay = day;
+    } else {
+      if (state.practice) stats.practiced++;
+      run = 0;
+      prevWonDay = null;
+    }
+    stats.maxStreak = Math.max(stats.maxStreak, run);
+  }
+
+  stats.currentStreak = run;
+  stats.winPct =
+    stats.gamesPlayed > 0
+      ? Math.round((stats.wins / stats.gamesPlayed) * 100)
+      : 0;
+
+  return stats;
+}
@@ -0,0 +1,60 @@
+/* Submit animations for Solve tiles, shared by the board and the replay. */
+
+export type TileAnim = "pop" | "shake" | "fly";
+export type TileAnimMap = Record<string, TileAnim | undefined>;
+
+type SetTileAnim = (update: (prev: TileAnimMap) => TileAnimMap) => void;
+type Sleep = (ms: number) => Promise<void>;
+
+export function clearTileAnim(
+  setTileAnim: SetTileAnim,
+  ids: string[],
+  only?: TileAnim,
+) {
+  setTileAnim((prev) => {
+    const next = { ...prev };
+    for (const id of ids) if (!only || next[id] === only) delete next[id];
+    return next;
+  });
+}
+
+/** "Pop" the picked tiles in sequence (NYT-style). */
+export async function popTiles(
+  setTileAnim: SetTileAnim,
+  ids: string[],
+  sleep: Sleep,
+) {
+  for (const id of ids) {
+    setTileAnim((prev) => ({ ...prev, [id]: "pop" }));
+    await sleep(90);
+    clearTileAnim(setTileAnim, [id], "pop");
+    await sleep(40);
+  }
+}
+
+/** Wrong guess: shake all of them for 1s. */
+export async function shakeTiles(
+  setTileAnim: SetTileAnim,
+  ids: string[],
+  sleep: Sleep,
+) {
+  setTileAnim((prev) => ({
+    ...prev,
+    ...Object.fromEntries(ids.map((id) => [id, "shake"])),
+  }));
+  await sleep(1000);
+  clearTileAnim(setTileAnim, ids, "shake");
+}
+
+/** Correct guess: fly upward. Tiles stay hidden until the caller clears them. */
+export async function flyTiles(
+  setTileAnim: SetTileAnim,
+  ids: string[],
+  sleep: Sleep,
+) {
+  setTileAnim((prev) => ({
+    ...prev,
+    ...Object.fromEntries(ids.map((id) => [id, "fly"])),
+  }));
+  await sleep(430);
+}
@@ -0,0 +1,89 @@
+import { getSetting, setSetting } from "../utils/persistence";
+
+/**
+ * Optional Solve clock. "timed" counts up; "speedrun" counts down from
+ * `limitMs` and fails the puzzle when it runs out. The clock starts on the
+ * first tile selection and only runs while the Solve tab is visible.
+ */
+export type TimerMode = "off" | "timed" | "speedrun";
+
+export type TimerConfig = {
+  mode: TimerMode;
+  limitMs: number; // speedrun only
+};
+
+export type SavedTimer = TimerConfig & {
+  started: boolean;
+  elapsedMs: number;
+};
+
+export const SPEEDRUN_LIMITS_MS = [60_000, 180_000, 300_000];
+const DEFAULT_LIMIT_MS = 180_000;
+
+export const TIMER_EMOJI = "⏱️";
+
+export function defaultTimerConfig(): TimerConfig {
+  return { mode: "off", limitMs: DEFAULT_LIMIT_MS };
+}
+
+/** "1:05", or "1:02:05" past an hour. */
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function cleanLimit(raw: unknown): number {
+  return typeof raw === "number" && SPEEDRUN_LIMITS_MS.includes(raw)
+    ? raw
+    : DEFAULT_LIMIT_MS;
+}
+
+/* ---------------- preferred mode for new puzzles ---------------- */
+
+// Stored as "off" | "timed" | "speedrun:<limitMs>".
+export function loadTimerPreference(): TimerConfig {
+  const raw = getSetting("solveTimer");
+  if (raw === "timed") return { mode: "timed", limitMs: DEFAULT_LIMIT_MS };
+  if (raw?.startsWith("speedrun:"))
+    return {
+      mode: "speedrun",
+      limitMs: cleanLimit(Number(raw.slice("speedrun:".length))),
+    };
+  return defaultTimerConfig();
+}
+
+export function saveTimerPreference(config: TimerConfig) {
+  setSetting(
+    "solveTimer",
+    config.mode === "speedrun" ? `speedrun:${config.limitMs}` : config.mode,
+  );
+}
+
+/* ---------------- per-puzzle saved clock ---------------- */
+
+export function cleanSavedTimer(raw: unknown): SavedTimer | null {
+  if (!raw || typeof raw !== "object") return null;
+  const t = raw as Partial<SavedTimer>;
+  if (t.mode !== "timed" && t.mode !== "speedrun") return null;
+  const elapsedMs =
+    typeof t.elapsedMs === "number" && Number.isFinite(t.elapsedMs)
+      ? Math.max(0, t.elapsedMs)
+      : 0;
+  return {
+    mode: t.mode,
+    limitMs: cleanLimit(t.limitMs),
+    started: Boolean(t.started),
+    elapsedMs,
+  };
+}
+
+export function isOutOfTime(timer: SavedTimer): boolean {
+  return (
+    timer.mode === "speedrun" &&
+    timer.started &&
+    timer.elapsedMs >= timer.limitMs
+  );
+}
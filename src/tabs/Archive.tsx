@@ -0,0 +1,318 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import {
+  catalogByDate,
+  fetchCatalog,
+  type Catalog,
+  type CatalogEntry,
+} from "../archive/catalog";
+import { searchArchive, type SearchScope } from "../archive/search";
+import {
+  TIER_LABELS,
+  analyzePuzzle,
+  puzzleWordsFromCatalog,
+  summarizeDifficulty,
+  type ArchiveDifficulty,
+  type DifficultyReport,
+} from "../analysis/difficulty";
+import DifficultyBadge from "../components/DifficultyBadge";
+import {
+  connectionsPuzzleNumber,
+  fetchAvailableDates,
+  fmtLocalYYYYMMDD,
+  formatDateLabel,
+} from "../puzzle";
+import { listSavedSolveStates } from "../solve/savedState";
+import { playStatus } from "../solve/stats";
+
+type StatusFilter = ReturnType<typeof playStatus> | "any";
+
+const STATUS_LABELS: Record<ReturnType<typeof playStatus>, string> = {
+  unplayed: "Unplayed",
+  "in-progress": "In progress",
+  won: "Solved",
+  failed: "Failed",
+};
+
+const SCOPES: { key: SearchScope; label: string }[] = [
+  { key: "all", label: "Words & titles" },
+  { key: "words", label: "Card words" },
+  { key: "titles", label: "Category titles" },
+];
+
+// Rows rendered per "Show more"; the full archive is well over a thousand.
+const PAGE_SIZE = 100;
+
+function DifficultySummary({ summary }: { summary: ArchiveDifficulty }) {
+  const tierMax = Math.max(1, ...Object.values(summary.tiers));
+  return (
+    <details className="archiveInsights">
+      <summary>
+        Difficulty across {summary.puzzles} puzzles · average {summary.avgScore}
+        /100
+      </summary>
+
+      <div className="statsSectionTitle">Tiers</div>
+      <div className="statsHist">
+        {Object.entries(summary.tiers).map(([tier, count]) => (
+          <div key={tier} className="statsHistRow">
+            <div className="statsHistLabel">
+              {TIER_LABELS[tier as keyof typeof TIER_LABELS]}
+            </div>
+            <div className="statsHistTrack">
+              <div
+                className={`statsHistBar difficultyBar ${tier}`}
+                style={{ width: `${(count / tierMax) * 100}%` }}
+              >
+                {count}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="modalFinePrint">
+        {Math.round(summary.avgHerringDensity * 100)}% of cards look like they
+        could belong to another group (shared prefixes, substrings, anagrams or
+        word lengths). {summary.imagePuzzles} puzzle
+        {summary.imagePuzzles === 1 ? " uses" : "s use"} picture cards.
+      </p>
+
+      <div className="statsSectionTitle">By editor</div>
+      <table className="statsOrder">
+        <thead>
+          <tr>
+            <th scope="col">Editor</th>
+            <th scope="col">Puzzles</th>
+            <th scope="col">Avg</th>
+            <th scope="col">By year</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summary.editors.map((e) => (
+            <tr key={e.editor}>
+              <th scope="row">{e.editor}</th>
+              <td>{e.puzzles}</td>
+              <td>{e.avgScore}</td>
+              <td>
+                {e.byYear.map((y) => `${y.year}: ${y.avgScore}`).join(" · ")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+export default function Archive({
+  isActive,
+  onOpen,
+}: {
+  isActive: boolean;
+  /** play a print date in Solve */
+  onOpen: (printDate: string) => void;
+}) {
+  const [datesAsc, setDatesAsc] = useState<string[]>([]);
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [catalogMissing, setCatalogMissing] = useState(false);
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState<SearchScope>("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("any");
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const deferredQuery = useDeferredValue(query);
+
+  // Nothing is downloaded until the tab is first opened.
+  const loadedRef = useRef(false);
+  useEffect(() => {
+    if (!isActive || loadedRef.current) return;
+    loadedRef.current = true;
+    fetchAvailableDates().then(setDatesAsc);
+    fetchCatalog().then((c) => {
+      setCatalog(c);
+      setCatalogMissing(c === null);
+    });
+  }, [isActive]);
+
+  // Re-read saved progress each time the tab is shown (other tabs write it).
+  const statuses = useMemo(
+    () =>
+      isActive
+        ? new Map(
+            listSavedSolveStates().map((e) => [
+              e.printDate,
+              playStatus(e.state),
+            ]),
+          )
+        : new Map<string, ReturnType<typeof playStatus>>(),
+    [isActive],
+  );
+
+  const entries = useMemo(
+    () => (catalog ? catalogByDate(catalog) : new Map<string, CatalogEntry>()),
+    [catalog],
+  );
+
+  const today = fmtLocalYYYYMMDD(new Date());
+
+  // Published puzzles only: an upcoming puzzle's difficulty is a spoiler.
+  const reports = useMemo(() => {
+    const out = new Map<string, DifficultyReport>();
+    for (const p of catalog?.puzzles ?? [])
+      if (p.print_date <= today)
+        out.set(p.print_date, analyzePuzzle(puzzleWordsFromCatalog(p)));
+    return out;
+  }, [catalog, today]);
+
+  const difficultySummary = useMemo(
+    () =>
+      reports.size > 0
+        ? summarizeDifficulty(
+            [...reports].map(([printDate, report]) => ({
+              printDate,
+              editor: entries.get(printDate)?.editor ?? "",
+              report,
+            })),
+          )
+        : null,
+    [reports, entries],
+  );
+
+  const searching = deferredQuery.trim() !== "";
+
+  const matches = useMemo(
+    () =>
+      catalog && searching
+        ? searchArchive(catalog, deferredQuery, scope)
+        : null,
+    [catalog, searching, deferredQuery, scope],
+  );
+
+  const rows = useMemo(() => {
+    const statusOf = (d: string) => statuses.get(d) ?? "unplayed";
+    return datesAsc
+      .filter((d) => {
+        // Upcoming puzzles are listed but never searched (no spoilers).
+        if (matches && (d > today || !matches.has(d))) return false;
+        return statusFilter === "any" || statusOf(d) === statusFilter;
+      })
+      .reverse()
+      .map((d) => ({ date: d, status: statusOf(d), match: matches?.get(d) }));
+  }, [datesAsc, matches, statuses, statusFilter, today]);
+
+  const counts = useMemo(() => {
+    const c = { won: 0, failed: 0 };
+    for (const s of statuses.values())
+      if (s === "won" || s === "failed") c[s]++;
+    return c;
+  }, [statuses]);
+
+  return (
+    <>
+      <div className="nytHeadline">
+        <div className="nytPrompt">Browse every puzzle!</div>
+      </div>
+
+      <div className="archiveControls">
+        <input
+          className="archiveSearch"
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShown(PAGE_SIZE);
+          }}
+          placeholder={
+            catalogMissing
+              ? "Search isn't available"
+              : 'Search, e.g. HINGE or "HINGE"'
+          }
+          aria-label="Search card words and category titles"
+          disabled={catalogMissing}
+        />
+        <select
+          className="archiveSelect"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as SearchScope)}
+          aria-label="Search in"
+          disabled={catalogMissing}
+        >
+          {SCOPES.map((s) => (
+            <option key={s.key} value={s.key}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="archiveSelect"
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as StatusFilter);
+            setShown(PAGE_SIZE);
+          }}
+          aria-label="Solve status"
+        >
+          <option value="any">Any status</option>
+          {Object.entries(STATUS_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="archiveSummary" role="status" aria-live="polite">
+        {datesAsc.length === 0
+          ? "Loading the archive…"
+          : matches
+            ? `${rows.length} puzzle${rows.length === 1 ? "" : "s"} match “${deferredQuery.trim()}”`
+            : `${rows.length} puzzles · ${counts.won} solved · ${counts.failed} failed`}
+      </div>
+
+      {difficultySummary && !matches && (
+        <DifficultySummary summary={difficultySummary} />
+      )}
+
+      <ol className="archiveList">
+        {rows.slice(0, shown).map(({ date, status, match }) => (
+          <li key={date}>
+            <button
+              className="archiveRow"
+              type="button"
+              onClick={() => onOpen(date)}
+            >
+              <span className="archiveNumber">
+                #{connectionsPuzzleNumber(date)}
+              </span>
+              <span className="archiveDate">{formatDateLabel(date)}</span>
+              <span className="archiveEditor">
+                {entries.get(date)?.editor ?? ""}
+                {entries.get(date)?.imageCards ? " · picture cards" : ""}{" "}
+                <DifficultyBadge report={reports.get(date) ?? null} />
+              </span>
+              <span className={`archiveStatus ${status}`}>
+                {date > today && status === "unplayed"
+                  ? "Upcoming"
+                  : STATUS_LABELS[status]}
+              </span>
+              {match && (
+                <span className="archiveMatch">
+                  {[...match.titles, ...match.words].join(" · ")}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {rows.length > shown && (
+        <button
+          className="pillBtn full"
+          type="button"
+          onClick={() => setShown((n) => n + PAGE_SIZE)}
+        >
+          Show more ({rows.length - shown} left)
+        </button>
+      )}
+    </>
+  );
+}
@@ -1,595 +1,63 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { getJsonCookie, setJsonCookie } from "../utils/persistence";
-import { fetchJsonCached } from "../utils/fetchJsonCached";
-type ColorKey = "yellow" | "green" | "blue" | "purple";
-
-const COLORS: { key: ColorKey; label: string }[] = [
-  { key: "yellow", label: "Yellow" },
-  { key: "green", label: "Green" },
-  { key: "blue", label: "Blue" },
-  { key: "purple", label: "Purple" },
-];
-
-type Tile =
-  | { id: string; kind: "text"; text: string }
-  | { id: string; kind: "image"; imageUrl: string; alt: string };
-
-function isImageTile(t: Tile): t is Extract<Tile, { kind: "image" }> {
-  return t.kind === "image";
-}
-
-function getTileText(t: Tile): string {
-  // Used for sizing logic + fallback; for images use alt text
-  return isImageTile(t) ? t.alt : t.text;
-}
-
-const smallTextThreshold = 7; // characters
-const tinyTextThreshold = 9; // characters
-
-function getTileTextSize(t: Tile): string {
-  const text = getTileText(t);
-  const maxStringLength = text
-    .split(" ")
-    .reduce((max, s) => Math.max(max, s.length), 0);
-  if (maxStringLength > smallTextThreshold) {
-    if (maxStringLength > tinyTextThreshold) {
-      return "tinyText";
-    }
-    return "smallText";
-  }
-  return "";
-}
-
-function TileFace({ tile }: { tile: Tile }) {
-  if (isImageTile(tile)) {
-    return (
-      <img
-        className="nytTileImg"
-        src={tile.imageUrl}
-        alt={tile.alt}
-        loading="lazy"
-        draggable={false}
-      />
-    );
-  }
-  return <>{tile.text}</>;
-}
-
-type Group = {
-  id: string;
-  color: ColorKey;
-  tileIds: string[]; // exactly 4
-};
-
-const fallbackTiles: Tile[] = [
-  { id: "t1", text: "STONE", kind: "text" },
-  { id: "t2", text: "TEMPLE", kind: "text" },
-  { id: "t3", text: "PILOT", kind: "text" },
-  { id: "t4", text: "LIP", kind: "text" },
-  { id: "t5", text: "STREET", kind: "text" },
-  { id: "t6", text: "CHEEK", kind: "text" },
-  { id: "t7", text: "FOOT", kind: "text" },
-  { id: "t8", text: "TRAFFIC", kind: "text" },
-  { id: "t9", text: "EYE", kind: "text" },
-  { id: "t10", text: "ACRE", kind: "text" },
-  { id: "t11", text: "FLOOD", kind: "text" },
-  { id: "t12", text: "METER", kind: "text" },
-  { id: "t13", text: "GARAGE", kind: "text" },
-  { id: "t14", text: "LIME", kind: "text" },
-  { id: "t15", text: "BUSHEL", kind: "text" },
-  { id: "t16", text: "VALET", kind: "text" },
-];
-
-type NytConnectionsResponse = {
-  status: "OK" | string;
-  id: number;
-  print_date: string; // YYYY-MM-DD
-  editor?: string;
-  categories: Array<{
-    title: string;
-    cards: Array<
-      | { content: string; position: number }
-      | { image_url: string; image_alt_text?: string; position: number }
-    >;
-  }>;
-};
-
-type NytIndex = {
-  generated_at?: string;
-  timezone?: string;
-  anchor_print_date: string;
-  range?: { from: number; to: number };
-  available: Record<
-    string,
-    | { ok: true; printDate: string; id?: number; editor?: string }
-    | {
-        ok: false;
-        printDate: string;
-        status?: number | string;
-        statusText?: string;
-      }
-  >;
-};
-
-type AvailableDatesFile = {
-  generated_at?: string;
-  timezone?: string;
-  dates: string[]; // YYYY-MM-DD[]
-};
-
-function uid(prefix = "g") {
-  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
-}
-
-/** Prefix paths with Vite BASE_URL so it works on GitHub Pages (/connectionsplayground/...). */
-function nytUrl(path: string) {
-  const base = import.meta.env.BASE_URL; // "/" locally, "/connectionsplayground/" on Pages
-  const clean = path.replace(/^\//, "");
-  return `${base}${clean}`;
-}
-
-/** YYYY-MM-DD in *browser local time* */
-function fmtLocalYYYYMMDD(d: Date) {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(d);
-
-  const y = parts.find((p) => p.type === "year")?.value ?? "1970";
-  const m = parts.find((p) => p.type === "month")?.value ?? "01";
-  const day = parts.find((p) => p.type === "day")?.value ?? "01";
-  return `${y}-${m}-${day}`;
-}
-
-/** Parse YYYY-MM-DD as a local-midnight Date */
-
-/**
- * Public “Connections Puzzle #” derived from NYT print_date (YYYY-MM-DD).
- * Puzzle #1 = 2023-06-12
- */
-export function connectionsPuzzleNumber(printDate: string): number {
-  const [y, m, d] = printDate.split("-").map(Number);
-  const dateUtc = Date.UTC(y, m - 1, d);
-  const epochUtc = Date.UTC(2023, 5, 12); // June 12, 2023
-  return Math.floor((dateUtc - epochUtc) / 86_400_000) + 1;
-}
-
-function nytToTiles(data: NytConnectionsResponse): Tile[] {
-  const allCards = data.categories.flatMap((c) => c.cards);
-  if (allCards.length !== 16)
-    throw new Error(`Expected 16 cards, got ${allCards.length}`);
-
-  return allCards
-    .slice()
-    .sort((a, b) => a.position - b.position)
-    .map((card) => {
-      const anyCard = card as any;
-
-      if (typeof anyCard.content === "string") {
-        return {
-          id: `nyt_${data.id}_${anyCard.position}`,
-          kind: "text" as const,
-          text: anyCard.content.toUpperCase(),
-        };
-      }
-
-      if (typeof anyCard.image_url === "string") {
-        return {
-          id: `nyt_${data.id}_${anyCard.position}`,
-          kind: "image" as const,
-          imageUrl: anyCard.image_url,
-          alt: ((anyCard.image_alt_text || "image") as string).toUpperCase(),
-        };
-      }
-
-      throw new Error("Unsupported NYT card type");
-    });
-}
-
-
-function pickBestDateFromIndex(
-  index: NytIndex,
-  preferredDate: string,
-): string | null {
-  const avail = index.available ?? {};
-  if (avail[preferredDate]?.ok) return preferredDate;
-  if (index.anchor_print_date && avail[index.anchor_print_date]?.ok)
-    return index.anchor_print_date;
-
-  const okDates = Object.values(avail)
-    .filter((v): v is { ok: true; printDate: string } => (v as any).ok)
-    .map((v) => v.printDate)
-    .sort();
-
-  if (okDates.length === 0) return null;
-
-  const toDayNum = (s: string) => {
-    const [yy, mm, dd] = s.split("-").map(Number);
-    return Math.floor(Date.UTC(yy, mm - 1, dd) / 86_400_000);
-  };
-
-  const target = toDayNum(preferredDate);
-  let best = okDates[0];
-  let bestDist = Math.abs(toDayNum(best) - target);
-
-  for (const d of okDates) {
-    const dist = Math.abs(toDayNum(d) - target);
-    if (dist < bestDist) {
-      best = d;
-      bestDist = dist;
-    }
-  }
-
-  return best;
-}
-
-/* ---------------- localStorage: save only categorized groups + color ---------------- */
-
-function storageKeyForPrintDate(printDate: string) {
-  return `connections-playground::click::${printDate}`;
-}
-
-function cookieKeyForPrintDate(printDate: string) {
-  return `cp_click_groups_${printDate}`;
-}
-function loadSavedGroups(
-  printDate: string,
-  validTileIds: Set<string>,
-): Group[] {
-  try {
-    const cookieParsed = getJsonCookie<unknown>(
-      cookieKeyForPrintDate(printDate),
-      null,
-    );
-    const raw = cookieParsed
-      ? JSON.stringify(cookieParsed)
-      : localStorage.getItem(storageKeyForPrintDate(printDate));
-    if (!raw) return [];
-
-    const parsed = JSON.parse(raw) as {
-      groups?: Array<Pick<Group, "id" | "color" | "tileIds">>;
-    };
-    const groups = Array.isArray(parsed.groups) ? parsed.groups : [];
-
-    const cleaned: Group[] = [];
-    for (const g of groups) {
-      if (!g || !Array.isArray(g.tileIds) || g.tileIds.length !== 4) continue;
-      if (!g.color) continue;
-      if (
-        g.tileIds.some((id) => typeof id !== "string" || !validTileIds.has(id))
-      )
-        continue;
-
-      cleaned.push({
-        id: typeof g.id === "string" ? g.id : uid("group"),
-        color: g.color as ColorKey,
-        tileIds: g.tileIds,
-      });
-    }
-
-    return cleaned;
-  } catch {
-    return [];
-  }
-}
-
-function saveGroups(printDate: string, groups: Group[]) {
-  try {
-    const payload = { groups };
-    setJsonCookie(cookieKeyForPrintDate(printDate), payload);
-    localStorage.setItem(
-      storageKeyForPrintDate(printDate),
-      JSON.stringify(payload),
-    );
-  } catch {
-    // ignore
-  }
-}
-
-/* ---------------- date helpers ---------------- */
-
-function nearestAvailableDate(
-  target: string,
-  datesAsc: string[],
-): string | null {
-  if (datesAsc.length === 0) return null;
-  if (datesAsc.includes(target)) return target;
-
-  const toDayNum = (s: string) => {
-    const [yy, mm, dd] = s.split("-").map(Number);
-    return Math.floor(Date.UTC(yy, mm - 1, dd) / 86_400_000);
-  };
-
-  const t = toDayNum(target);
-  let best = datesAsc[0];
-  let bestDist = Math.abs(toDayNum(best) - t);
-
-  for (const d of datesAsc) {
-    const dist = Math.abs(toDayNum(d) - t);
-    if (dist < bestDist) {
-      best = d;
-      bestDist = dist;
-    }
-  }
-  return best;
-}
-
-function clampToAvailable(target: string, datesAsc: string[]): string | null {
-  if (datesAsc.length === 0) return target; // no availability file? allow any
-  return nearestAvailableDate(target, datesAsc);
-}
-
-function formatDateLabel(ymd: string) {
-  const [y, m, d] = ymd.split("-").map(Number);
-  const dt = new Date(y, m - 1, d); // local calendar date
-
-  return dt.toLocaleDateString(undefined, {
-    weekday: "short",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
-
-function ymdFromUTCDate(d: Date) {
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
-function monthKeyFromYMD(ymd: string) {
-  return ymd.slice(0, 7); // YYYY-MM
-}
-
-/* ---------------- Sophisticated DatePicker ---------------- */
-
-function DatePicker({
-  value,
-  availableDatesAsc,
-  onChange,
-}: {
-  value: string;
-  availableDatesAsc: string[];
-  onChange: (next: string) => void;
-}) {
-  const availableSet = useMemo(
-    () => new Set(availableDatesAsc),
-    [availableDatesAsc],
-  );
-
-  const [open, setOpen] = useState(false);
-  const [month, setMonth] = useState(() => monthKeyFromYMD(value));
-  const popoverRef = useRef<HTMLDivElement | null>(null);
-
-  useEffect(() => setMonth(monthKeyFromYMD(value)), [value]);
-
-  // close on outside click + Escape
-  useEffect(() => {
-    if (!open) return;
-
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") setOpen(false);
-    };
-
-    const onDown = (e: MouseEvent) => {
-      const el = popoverRef.current;
-      if (!el) return;
-      if (!el.contains(e.target as Node)) setOpen(false);
-    };
-
-    window.addEventListener("keydown", onKey);
-    window.addEventListener("mousedown", onDown);
-    return () => {
-      window.removeEventListener("keydown", onKey);
-      window.removeEventListener("mousedown", onDown);
-    };
-  }, [open]);
-
-  const idx = availableDatesAsc.indexOf(value);
-  const hasPrev = availableDatesAsc.length > 0 ? idx > 0 : false;
-  const hasNext =
-    availableDatesAsc.length > 0
-      ? idx >= 0 && idx < availableDatesAsc.length - 1
-      : false;
-
-  const goPrev = () => {
-    if (!hasPrev) return;
-    onChange(availableDatesAsc[idx - 1]);
-  };
-
-  const goNext = () => {
-    if (!hasNext) return;
-    onChange(availableDatesAsc[idx + 1]);
-  };
-
-  const monthStartUTC = useMemo(() => {
-    const [y, m] = month.split("-").map(Number);
-    return new Date(Date.UTC(y, m - 1, 1));
-  }, [month]);
-
-  const firstDow = monthStartUTC.getUTCDay(); // 0=Sun
-  const daysInMonth = useMemo(() => {
-    const y = monthStartUTC.getUTCFullYear();
-    const m = monthStartUTC.getUTCMonth();
-    return new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
-  }, [monthStartUTC]);
-
-  const gridCells = useMemo(() => {
-    const cells: Array<{ ymd: string; inMonth: boolean; enabled: boolean }> =
-      [];
-    const start = new Date(monthStartUTC);
-    start.setUTCDate(1 - firstDow);
-
-    for (let i = 0; i < 42; i++) {
-      const d = new Date(start);
-      d.setUTCDate(start.getUTCDate() + i);
-
-      const ymd = ymdFromUTCDate(d);
-      const inMonth = d.getUTCMonth() === monthStartUTC.getUTCMonth();
-      const enabled =
-        availableDatesAsc.length > 0 ? availableSet.has(ymd) : true;
-
-      cells.push({ ymd, inMonth, enabled });
-    }
-    return cells;
-  }, [monthStartUTC, firstDow, availableSet, availableDatesAsc.length]);
-
-  const moveMonth = (delta: number) => {
-    const y = monthStartUTC.getUTCFullYear();
-    const m = monthStartUTC.getUTCMonth();
-    const next = new Date(Date.UTC(y, m + delta, 1));
-    setMonth(ymdFromUTCDate(next).slice(0, 7));
-  };
-
-  const jumpTo = (ymd: string) => {
-    const next = clampToAvailable(ymd, availableDatesAsc);
-    if (next) onChange(next);
-    setOpen(false);
-  };
-
-  const monthTitle = useMemo(() => {
-    const mid = new Date(monthStartUTC);
-    mid.setUTCDate(Math.min(15, daysInMonth));
-    return mid.toLocaleDateString(undefined, {
-      month: "long",
-      year: "numeric",
-    });
-  }, [monthStartUTC, daysInMonth]);
-
-  return (
-    <div className="nytDatePicker" ref={popoverRef}>
-      <button
-        className="nytNavBtn"
-        type="button"
-        disabled={!hasPrev}
-        onClick={goPrev}
-        aria-label="Previous date"
-      >
-        ‹
-      </button>
-
-      <button
-        className="nytDateBtn"
-        type="button"
-        onClick={() => setOpen((v) => !v)}
-        aria-haspopup="dialog"
-        aria-expanded={open}
-        title="Pick a date"
-      >
-        {formatDateLabel(value)}
-      </button>
-
-      <button
-        className="nytNavBtn"
-        type="button"
-        disabled={!hasNext}
-        onClick={goNext}
-        aria-label="Next date"
-      >
-        ›
-      </button>
-
-      <button
-        className="nytTodayBtn"
-        type="button"
-        onClick={() => onChange(fmtLocalYYYYMMDD(new Date()))}
-      >
-        Today
-      </button>
-
-      {open && (
-        <div className="nytCal" role="dialog" aria-label="Date picker">
-          <div className="nytCalHeader">
-            <button
-              className="nytCalArrow"
-              type="button"
-              onClick={() => moveMonth(-1)}
-              aria-label="Previous month"
-            >
-              ‹
-            </button>
-            <div className="nytCalMonth">{monthTitle}</div>
-            <button
-              className="nytCalArrow"
-              type="button"
-              onClick={() => moveMonth(1)}
-              aria-label="Next month"
-            >
-              ›
-            </button>
-          </div>
-
-          <div className="nytCalDow">
-            {["S", "M", "T", "W", "T", "F", "S"].map((d) => (
-              <div key={d} className="nytCalDowCell">
-                {d}
-              </div>
-            ))}
-          </div>
-
-          <div className="nytCalGrid">
-            {gridCells.map((c) => {
-              const day = c.ymd.slice(8, 10);
-              const isSelected = c.ymd === value;
-
-              const cls = [
-                "nytCalCell",
-                c.inMonth ? "inMonth" : "outMonth",
-                c.enabled ? "enabled" : "disabled",
-                isSelected ? "selected" : "",
-              ]
-                .filter(Boolean)
-                .join(" ");
-
-              return (
-                <button
-                  key={c.ymd}
-                  type="button"
-                  className={cls}
-                  disabled={!c.enabled}
-                  onClick={() => jumpTo(c.ymd)}
-                  title={c.enabled ? c.ymd : "Not available"}
-                >
-                  {String(Number(day))}
-                </button>
-              );
-            })}
-          </div>
-
-          <button
-            className="nytCalClose"
-            type="button"
-            onClick={() => setOpen(false)}
-          >
-            Close
-          </button>
-        </div>
-      )}
-    </div>
-  );
-}
+import { loadSavedGroups, saveGroups } from "../click/savedState";
+import DatePicker from "../components/DatePicker";
+import DifficultyBadge from "../components/DifficultyBadge";
+import OpenPuzzleModal from "../components/OpenPuzzleModal";
+import TileFace from "../components/TileFace";
+import LiveRegion from "../components/LiveRegion";
+import {
+  COLORS,
+  colorLabel,
+  connectionsPuzzleNumber,
+  fallbackTiles,
+  fetchAvailableDates,
+  fetchPuzzleForDate,
+  fmtLocalYYYYMMDD,
+  getTileText,
+  getTileTextSize,
+  isImageTile,
+  isYMD,
+  nearestAvailableDate,
+  puzzleStorageKey,
+  uid,
+  type ColorKey,
+  type Group,
+  type LoadedPuzzle,
+  type PuzzleMeta,
+  type PuzzleRequest,
+  type Tile,
+} from "../puzzle";
+import { onGridArrowKey, useKeyboardShortcuts } from "../utils/keyboard";
+import {
+  analyzePuzzle,
+  puzzleWordsFromLoaded,
+  type DifficultyReport,
+} from "../analysis/difficulty";
+import { useAnnouncer } from "../utils/announce";
 
 export default function ClickStyle({
   initialPrintDate,
+  puzzleRequest,
+  isActive = true,
 }: {
   initialPrintDate?: string | null;
+  /** a puzzle from outside the date picker, e.g. an editor link */
+  puzzleRequest?: PuzzleRequest | null;
+  /** false while another tab's panel is shown (disables shortcuts) */
+  isActive?: boolean;
 }) {
-    const [tiles, setTiles] = useState<Tile[]>(fallbackTiles);
+  const [tiles, setTiles] = useState<Tile[]>(fallbackTiles);
   const [baseTiles, setBaseTiles] = useState<Tile[]>(fallbackTiles);
   const [groups, setGroups] = useState<Group[]>([]);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   // puzzle load status
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [nytMeta, setNytMeta] = useState<{
-    id: number;
-    print_date: string;
-    editor?: string;
-  } | null>(null);
+  const [nytMeta, setNytMeta] = useState<PuzzleMeta | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultyReport | null>(null);
   const [requestedDate, setRequestedDate] = useState<string | null>(null);
   const [snack, setSnack] = useState<string | null>(null);
+  const [announcement, announce] = useAnnouncer();
 
   // keep the real solution tile ids by color for current loaded puzzle
   // available dates + picker state
@@ -622,104 +90,65 @@ export default function ClickStyle({
 
   // Load available-dates.json (truth from disk)
   useEffect(() => {
-    (async () => {
-      try {
-        const data = await fetchJsonCached<AvailableDatesFile>(
-          nytUrl("nyt/available-dates.json"),
-        );
-        const dates = Array.isArray(data.dates)
-          ? data.dates.slice().sort()
-          : [];
-        setAvailableDatesAsc(dates);
-      } catch {
-        setAvailableDatesAsc([]);
-      }
-    })();
+    fetchAvailableDates().then(setAvailableDatesAsc);
   }, []);
 
-  async function loadPuzzleByDate(dateStr: string) {
+  // Prevent older async loads from overwriting newer ones
+  const loadSeqRef = useRef(0);
+
+  async function loadPuzzle(
+    label: string,
+    getPuzzle: () => Promise<LoadedPuzzle>,
+  ) {
     setLoading(true);
     setError(null);
-    setRequestedDate(dateStr);
+    setRequestedDate(label);
 
-    const applyLoadedPuzzle = (data: NytConnectionsResponse) => {
-      const nextTiles = nytToTiles(data);
+    const seq = ++loadSeqRef.current;
+
+    const applyLoadedPuzzle = (puzzle: LoadedPuzzle) => {
+      if (seq !== loadSeqRef.current) return;
+      const nextTiles = puzzle.tiles;
       const tileIdSet = new Set(nextTiles.map((t) => t.id));
 
-      setNytMeta({
-        id: data.id,
-        print_date: data.print_date,
-        editor: data.editor,
-      });
+      setNytMeta(puzzle.meta);
+      setDifficulty(analyzePuzzle(puzzleWordsFromLoaded(puzzle)));
       setTiles(nextTiles);
       setBaseTiles(nextTiles);
 
-      // solution for Solve button
-      // restore saved groups for this print_date
-      const saved = loadSavedGroups(data.print_date, tileIdSet);
+      // restore saved groups for this puzzle
+      const saved = loadSavedGroups(puzzleStorageKey(puzzle.meta), tileIdSet);
       setGroups(saved);
 
       // keep picker in sync with actual loaded date
-      setPickedDate(data.print_date);
+      if (!puzzle.meta.custom) setPickedDate(puzzle.meta.print_date);
 
       setSelected(new Set());
       setLoading(false);
     };
 
-    // Try exact date file FIRST (so old dates load properly)
-    try {
-      const data = await fetchJsonCached<NytConnectionsResponse>(
-        nytUrl(`nyt/${dateStr}.json`),
-      );
-      if (data.status !== "OK")
-        throw new Error(`Puzzle status not OK: ${data.status}`);
-      applyLoadedPuzzle(data);
-      return;
-    } catch {
-      // fall through
-    }
-
-    // Then try index.json best match (for near-today window, future, etc.)
-    try {
-      const index = await fetchJsonCached<NytIndex>(nytUrl("nyt/index.json"));
-      const bestDate = pickBestDateFromIndex(index, dateStr);
-
-      if (bestDate) {
-        const data = await fetchJsonCached<NytConnectionsResponse>(
-          nytUrl(`nyt/${bestDate}.json`),
-        );
-        if (data.status !== "OK")
-          throw new Error(`Puzzle status not OK: ${data.status}`);
-        applyLoadedPuzzle(data);
-        return;
-      }
-    } catch {
-      // fall through
-    }
-
-    // Finally latest.json
     try {
-      const data = await fetchJsonCached<NytConnectionsResponse>(
-        nytUrl("nyt/latest.json"),
+      applyLoadedPuzzle(await getPuzzle());
+    } catch (e) {
+      if (seq !== loadSeqRef.current) return;
+      setError(
+        e instanceof Error
+          ? e.message
+          : "Failed to load local NYT puzzle files",
       );
-      if (data.status !== "OK")
-        throw new Error(`Puzzle status not OK: ${data.status}`);
-      applyLoadedPuzzle(data);
-      return;
-    } catch (e: any) {
-      setError(e?.message ?? "Failed to load local NYT puzzle files");
       setLoading(false);
     }
   }
 
+  const loadPuzzleByDate = (dateStr: string) =>
+    loadPuzzle(dateStr, () => fetchPuzzleForDate(dateStr));
+
+  const [showOpen, setShowOpen] = useState(false);
+
   // Default on load/reload: current local day
   const initialAppliedRef = useRef<string | null>(null);
   useEffect(() => {
-    const fromQuery =
-      typeof initialPrintDate === "string" &&
-      /^\d{4}-\d{2}-\d{2}$/.test(initialPrintDate)
-        ? initialPrintDate
-        : null;
+    const fromQuery = isYMD(initialPrintDate) ? initialPrintDate : null;
 
     const desired = fromQuery ?? fmtLocalYYYYMMDD(new Date());
     if (initialAppliedRef.current === desired) return;
@@ -730,12 +159,17 @@ export default function ClickStyle({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialPrintDate]);
 
-  // Persist groups whenever they change (keyed by the puzzle print_date)
-  const storagePrintDate = nytMeta?.print_date ?? null;
   useEffect(() => {
-    if (!storagePrintDate) return;
-    saveGroups(storagePrintDate, groups);
-  }, [groups, storagePrintDate]);
+    if (puzzleRequest)
+      loadPuzzle(puzzleRequest.label, () => puzzleRequest.puzzle);
+  }, [puzzleRequest]);
+
+  // Persist groups whenever they change (keyed by print date / custom key)
+  const storageKey = nytMeta ? puzzleStorageKey(nytMeta) : null;
+  useEffect(() => {
+    if (!storageKey) return;
+    saveGroups(storageKey, groups);
+  }, [groups, storageKey]);
 
   const toggleSelect = (tileId: string) => {
     if (groupedTileIds.has(tileId)) return;
@@ -776,6 +210,7 @@ export default function ClickStyle({
 
     const newGroup: Group = { id: uid("group"), color, tileIds };
     setGroups((prev) => [...prev, newGroup]);
+    announce(`Grouped as ${colorLabel(color).toLowerCase()}.`);
 
     clearSelection();
   };
@@ -800,6 +235,9 @@ export default function ClickStyle({
 
     setGroups((prev) => prev.filter((gr) => gr.id !== g.id));
     setSelected(new Set(otherThree));
+    announce(
+      `Ungrouped ${colorLabel(g.color).toLowerCase()}; the other three stay selected.`,
+    );
 
     bringTileIdsToFront(g.tileIds);
   };
@@ -818,24 +256,61 @@ export default function ClickStyle({
     return false;
   }, [groups, tiles, baseTiles]);
 
-  const puzzleNumber = nytMeta?.print_date
-    ? connectionsPuzzleNumber(nytMeta.print_date)
+  const puzzleNumber =
+    nytMeta?.print_date && !nytMeta.custom
+      ? connectionsPuzzleNumber(nytMeta.print_date)
+      : null;
+  const customName = nytMeta?.custom
+    ? (nytMeta.custom.name ?? "Custom puzzle")
     : null;
 
+  /* ---------------- keyboard ---------------- */
+
+  const gridRef = useRef<HTMLDivElement | null>(null);
+
+  useKeyboardShortcuts(isActive, (e) => {
+    const target = e.target as HTMLElement | null;
+
+    if (e.shiftKey && e.key === "R") {
+      if (isDirty) resetAll();
+      return true;
+    }
+    if (e.shiftKey) return false;
+
+    const colorIndex = ["1", "2", "3", "4"].indexOf(e.key);
+    if (colorIndex !== -1) {
+      categorize(COLORS[colorIndex].key);
+      return true;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === "s") {
+      shuffleUngrouped();
+      return true;
+    }
+    if (key === "d") {
+      clearSelection();
+      return true;
+    }
+    // Arrow keys with nothing focused: jump into the grid.
+    if (key.startsWith("arrow") && !target?.closest(".nytGrid")) {
+      gridRef.current?.querySelector<HTMLElement>("button")?.focus();
+      return true;
+    }
+    return false;
+  });
+
   /* ---------------- share ---------------- */
 
   const allColored = groups.length === 4;
 
   // Tile words, keyed by id, in the puzzle's original grid order.
-  // Image tiles share their alt text; when the puzzle gives no alt text,
-  // fall back to the tile's grid position so they stay distinguishable.
+  // Image tiles share their alt text (which names the grid position when the
+  // puzzle gives none).
   const tileShareInfo = useMemo(() => {
     const m = new Map<string, { label: string; order: number }>();
     baseTiles.forEach((t, i) => {
-      const text = getTileText(t);
-      const label =
-        isImageTile(t) && text === "IMAGE" ? `IMAGE ${i + 1}` : text;
-      m.set(t.id, { label, order: i });
+      m.set(t.id, { label: getTileText(t), order: i });
     });
     return m;
   }, [baseTiles]);
@@ -859,9 +334,10 @@ export default function ClickStyle({
 
     const header = ["My Connections Guesses"];
     if (puzzleNumber !== null) header.push(`Puzzle #${puzzleNumber}`);
+    if (customName) header.push(customName);
 
     return [...header, ...lines].join("\n");
-  }, [allColored, groups, tileShareInfo, puzzleNumber]);
+  }, [allColored, groups, tileShareInfo, puzzleNumber, customName]);
 
   const copyResults = async () => {
     if (!shareText) return;
@@ -903,10 +379,13 @@ export default function ClickStyle({
                     {puzzleNumber !== null ? (
                       <div className="nytMetaItem">Puzzle #{puzzleNumber}</div>
                     ) : null}
+                    <DifficultyBadge report={difficulty} />
                     {puzzleNumber !== null ? (
                       <div className="nytMetaDot">•</div>
                     ) : null}
-                    <div className="nytMetaItem">{nytMeta.print_date}</div>
+                    <div className="nytMetaItem">
+                      {customName ?? nytMeta.print_date}
+                    </div>
                     <div className="nytMetaDot">•</div>
                     <button
                       className="nytResetText"
@@ -937,6 +416,14 @@ export default function ClickStyle({
           availableDatesAsc={availableDatesAsc}
           onChange={onPickDate}
         />
+        <button
+          className="nytTodayBtn"
+          type="button"
+          onClick={() => setShowOpen(true)}
+          title="Open a puzzle file or pasted JSON"
+        >
+          Open…
+        </button>
       </div>
       <div className="nytSubTabsRow">
         <nav className="nytTabs nytSubTabs" aria-label="Click style controls">
@@ -993,7 +480,11 @@ export default function ClickStyle({
       <section className={`nytRows ${groups.length === 4 ? "full" : ""}`}>
         {groups.map((g) => (
           <div key={g.id} className="nytSolvedRow">
-            <div className="nytGrid">
+            <div
+              className="nytGrid"
+              role="group"
+              aria-label={`${colorLabel(g.color)} group`}
+            >
               {g.tileIds.map((id) => {
                 const t = tiles.find((x) => x.id === id);
                 return (
@@ -1003,6 +494,7 @@ export default function ClickStyle({
                     onPointerDown={(e) => e.preventDefault()}
                     onClick={() => onClickGroupedTile(id)}
                     title="Click to uncategorize (keeps other 3 selected)"
+                    aria-label={`${t ? getTileText(t) : ""}, in ${colorLabel(g.color).toLowerCase()} group`}
                     type="button"
                     className={`nytTile locked ${g.color} ${getTileTextSize(
                       t!,
@@ -1019,7 +511,13 @@ export default function ClickStyle({
 
       {/* Main grid */}
       <section className="nytGridWrap">
-        <div className="nytGrid">
+        <div
+          className="nytGrid"
+          ref={gridRef}
+          onKeyDown={onGridArrowKey}
+          role="group"
+          aria-label={`Tiles, ${selectedCount} of 4 selected`}
+        >
           {ungroupedTiles.map((t) => {
             const isSelected = selected.has(t.id);
             return (
@@ -1029,6 +527,7 @@ export default function ClickStyle({
                 onPointerDown={(e) => e.preventDefault()}
                 onClick={() => toggleSelect(t.id)}
                 aria-pressed={isSelected}
+                aria-label={getTileText(t)}
                 type="button"
                 className={`nytTile ${isImageTile(t) ? "imgTile" : ""} ${isSelected ? "selected" : ""} ${getTileTextSize(
                   t,
@@ -1061,7 +560,9 @@ export default function ClickStyle({
           className="pillBtn primary"
           onClick={copyResults}
           disabled={!allColored}
-          title={allColored ? "Share your guesses" : "Color all four groups first"}
+          title={
+            allColored ? "Share your guesses" : "Color all four groups first"
+          }
           type="button"
         >
           Share
@@ -1073,6 +574,13 @@ export default function ClickStyle({
           {snack}
         </div>
       )}
+      {showOpen && (
+        <OpenPuzzleModal
+          onOpen={(puzzle) => loadPuzzle("opened puzzle", async () => puzzle)}
+          onClose={() => setShowOpen(false)}
+        />
+      )}
+      <LiveRegion message={announcement} />
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { loadEditorDraft, saveEditorDraft } from "../editor/draft";
+import LiveRegion from "../components/LiveRegion";
+import {
+  COLORS,
+  customIssueLabel,
+  customPuzzleLink,
+  emptyCustomPuzzle,
+  validateCustomPuzzle,
+  type CustomCard,
+  type CustomGroup,
+  type CustomPuzzle,
+} from "../puzzle";
+import { useAnnouncer } from "../utils/announce";
+
+type PlayMode = "solve" | "click" | "drag";
+
+const PLAY_MODES: { key: PlayMode; label: string }[] = [
+  { key: "solve", label: "Solve!" },
+  { key: "click", label: "Click Mode" },
+  { key: "drag", label: "Drag Mode" },
+];
+
+export default function Editor({
+  onPlay,
+}: {
+  /** open a puzzle link in this app (App switches tab and loads it) */
+  onPlay: (href: string) => void;
+}) {
+  const [draft, setDraft] = useState<CustomPuzzle>(loadEditorDraft);
+  // Blank fields only count as problems once the player tries to share.
+  const [attempted, setAttempted] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const [snack, setSnack] = useState<string | null>(null);
+  const [announcement, announce] = useAnnouncer();
+  // Bumped on every edit; a link built from an older draft is dropped.
+  const editRef = useRef(0);
+
+  useEffect(() => {
+    saveEditorDraft(draft);
+  }, [draft]);
+
+  const issues = useMemo(() => validateCustomPuzzle(draft), [draft]);
+  const shownIssues = attempted ? issues : issues.filter((i) => !i.blank);
+  const invalidPaths = new Set(shownIssues.map((i) => i.path));
+
+  const isEmpty = useMemo(
+    () => JSON.stringify(draft) === JSON.stringify(emptyCustomPuzzle()),
+    [draft],
+  );
+
+  /* ---------------- editing ---------------- */
+
+  const update = (fn: (d: CustomPuzzle) => CustomPuzzle) => {
+    editRef.current++;
+    setDraft(fn);
+    setLink(null); // an old link no longer matches the puzzle
+  };
+
+  const updateGroup = (gi: number, fn: (g: CustomGroup) => CustomGroup) =>
+    update((d) => ({
+      ...d,
+      groups: d.groups.map((g, i) => (i === gi ? fn(g) : g)),
+    }));
+
+  const updateCard = (gi: number, ci: number, card: CustomCard) =>
+    updateGroup(gi, (g) => ({
+      ...g,
+      cards: g.cards.map((c, i) => (i === ci ? card : c)),
+    }));
+
+  // Switching kind keeps the words: text becomes the alt text and back.
+  const setCardKind = (gi: number, ci: number, kind: CustomCard["kind"]) => {
+    const card = draft.groups[gi].cards[ci];
+    if (card.kind === kind) return;
+    updateCard(
+      gi,
+      ci,
+      card.kind === "text"
+        ? { kind: "image", imageUrl: "", alt: card.text }
+        : { kind: "text", text: card.alt },
+    );
+  };
+
+  // Difficulty is the group's position: first is yellow, last is purple.
+  const moveGroup = (gi: number, delta: -1 | 1) => {
+    const target = gi + delta;
+    if (target < 0 || target >= draft.groups.length) return;
+    update((d) => {
+      const groups = d.groups.slice();
+      [groups[gi], groups[target]] = [groups[target], groups[gi]];
+      return { ...d, groups };
+    });
+    announce(
+      `Moved to ${COLORS[target].label.toLowerCase()} (${delta < 0 ? "easier" : "harder"}).`,
+    );
+  };
+
+  const startOver = () => {
+    editRef.current++;
+    setDraft(emptyCustomPuzzle());
+    setAttempted(false);
+    setLink(null);
+  };
+
+  /* ---------------- sharing ---------------- */
+
+  const readyToShare = () => {
+    setAttempted(true);
+    if (issues.length === 0) return true;
+    announce(
+      `${issues.length} problem${issues.length === 1 ? "" : "s"} to fix first.`,
+    );
+    return false;
+  };
+
+  const createLink = async () => {
+    if (!readyToShare()) return;
+    const edit = editRef.current;
+    const href = await customPuzzleLink(draft);
+    if (edit !== editRef.current) return;
+    setLink(href);
+    announce("Link ready to copy.");
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setSnack("Copied!");
+      window.setTimeout(() => setSnack(null), 2000);
+    } catch {
+      // ignore
+    }
+  };
+
+  const play = async (mode: PlayMode) => {
+    if (!readyToShare()) return;
+    const edit = editRef.current;
+    const href = await customPuzzleLink(draft, mode);
+    if (edit !== editRef.current) return;
+    onPlay(href);
+  };
+
+  const inputClass = (path: string) =>
+    invalidPaths.has(path) ? "editorInput invalid" : "editorInput";
+
+  return (
+    <>
+      <div className="nytHeadline">
+        <div className="nytPrompt">Write your own puzzle!</div>
+      </div>
+
+      <form
+        className="editorForm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createLink();
+        }}
+      >
+        <div className="editorMetaFields">
+          <label className="editorField">
+            Puzzle name
+            <input
+              className="editorInput"
+              value={draft.name}
+              placeholder="Optional"
+              maxLength={60}
+              onChange={(e) => update((d) => ({ ...d, name: e.target.value }))}
+            />
+          </label>
+          <label className="editorField">
+            By
+            <input
+              className="editorInput"
+              value={draft.author}
+              placeholder="Optional"
+              maxLength={40}
+              onChange={(e) =>
+                update((d) => ({ ...d, author: e.target.value }))
+              }
+            />
+          </label>
+        </div>
+
+        {draft.groups.map((g, gi) => {
+          const color = COLORS[gi];
+          const groupPath = `groups[${gi}]`;
+          return (
+            <fieldset key={gi} className={`editorGroup ${color.key}`}>
+              <legend className="editorGroupLegend">
+                {color.label}
+                {gi === 0 ? " · easiest" : ""}
+                {gi === draft.groups.length - 1 ? " · hardest" : ""}
+              </legend>
+
+              <div className="editorGroupHeader">
+                <input
+                  className={inputClass(`${groupPath}.title`)}
+                  value={g.title}
+                  placeholder="Category title"
+                  aria-label={`${color.label} category title`}
+                  aria-invalid={invalidPaths.has(`${groupPath}.title`)}
+                  maxLength={80}
+                  onChange={(e) =>
+                    updateGroup(gi, (prev) => ({
+                      ...prev,
+                      title: e.target.value,
+                    }))
+                  }
+                />
+                <button
+                  className="iconBtn"
+                  type="button"
+                  onClick={() => moveGroup(gi, -1)}
+                  disabled={gi === 0}
+                  aria-label={`Make the ${color.label.toLowerCase()} group easier`}
+                  title="Easier"
+                >
+                  ↑
+                </button>
+                <button
+                  className="iconBtn"
+                  type="button"
+                  onClick={() => moveGroup(gi, 1)}
+                  disabled={gi === draft.groups.length - 1}
+                  aria-label={`Make the ${color.label.toLowerCase()} group harder`}
+                  title="Harder"
+                >
+                  ↓
+                </button>
+              </div>
+
+              <div className="editorCards">
+                {g.cards.map((c, ci) => {
+                  const cardPath = `${groupPath}.cards[${ci}]`;
+                  const cardLabel = `${color.label} card ${ci + 1}`;
+                  return (
+                    <div key={ci} className="editorCard">
+                      <select
+                        className="nytModeSelect"
+                        value={c.kind}
+                        aria-label={`${cardLabel} type`}
+                        onChange={(e) =>
+                          setCardKind(
+                            gi,
+                            ci,
+                            e.target.value as CustomCard["kind"],
+                          )
+                        }
+                      >
+                        <option value="text">Text</option>
+                        <option value="image">Image</option>
+                      </select>
+                      {c.kind === "text" ? (
+                        <input
+                          className={inputClass(cardPath)}
+                          value={c.text}
+                          placeholder={`Word ${ci + 1}`}
+                          aria-label={cardLabel}
+                          aria-invalid={invalidPaths.has(cardPath)}
+                          maxLength={40}
+                          onChange={(e) =>
+                            updateCard(gi, ci, {
+                              kind: "text",
+                              text: e.target.value,
+                            })
+                          }
+                        />
+                      ) : (
+                        <>
+                          <input
+                            className={inputClass(cardPath)}
+                            type="url"
+                            value={c.imageUrl}
+                            placeholder="https://…"
+                            aria-label={`${cardLabel} image URL`}
+                            aria-invalid={invalidPaths.has(cardPath)}
+                            onChange={(e) =>
+                              updateCard(gi, ci, {
+                                ...c,
+                                imageUrl: e.target.value,
+                              })
+                            }
+                          />
+                          <input
+                            className="editorInput"
+                            value={c.alt}
+                            placeholder="Alt text"
+                            aria-label={`${cardLabel} alt text`}
+                            maxLength={80}
+                            onChange={(e) =>
+                              updateCard(gi, ci, { ...c, alt: e.target.value })
+                            }
+                          />
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+          );
+        })}
+
+        {shownIssues.length > 0 && (
+          <ul className="editorIssues nytError">
+            {shownIssues.map((i, idx) => (
+              <li key={idx}>
+                {customIssueLabel(i.path)}: {i.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="modalActions">
+          <button
+            className="pillBtn subtle"
+            type="button"
+            onClick={startOver}
+            disabled={isEmpty}
+          >
+            Start over
+          </button>
+          <button className="pillBtn primary" type="submit">
+            Create link
+          </button>
+        </div>
+
+        {link && (
+          <div className="editorLink">
+            <input
+              className="editorInput"
+              readOnly
+              value={link}
+              aria-label="Puzzle link"
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <button className="pillBtn" type="button" onClick={copyLink}>
+              Copy
+            </button>
+          </div>
+        )}
+
+        <div className="editorPlayRow">
+          <span>Play it in</span>
+          {PLAY_MODES.map((m) => (
+            <button
+              key={m.key}
+              className="pillBtn subtle"
+              type="button"
+              onClick={() => play(m.key)}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </form>
+
+      {snack && (
+        <div className="nytSnack" role="status">
+          {snack}
+        </div>
+      )}
+      <LiveRegion message={announcement} />
+    </>
+  );
+}
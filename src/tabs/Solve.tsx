@@ -1,54 +1,111 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { fetchJsonCached } from "../utils/fetchJsonCached";
-type ColorKey = "yellow" | "green" | "blue" | "purple";
-
-type Tile =
-  | { id: string; kind: "text"; text: string }
-  | { id: string; kind: "image"; imageUrl: string; alt: string };
-
-function isImageTile(t: Tile): t is Extract<Tile, { kind: "image" }> {
-  return t.kind === "image";
-}
-
-function getTileText(t: Tile): string {
-  // Used for sizing logic + fallback; for images use alt text
-  return isImageTile(t) ? t.alt : t.text;
-}
-
-const smallTextThreshold = 7; // characters
-const tinyTextThreshold = 9; // characters
-
-function getTileTextSize(t: Tile): string {
-  const text = getTileText(t);
-  const maxStringLength = text
-    .split(" ")
-    .reduce((max, s) => Math.max(max, s.length), 0);
-  if (maxStringLength > smallTextThreshold) {
-    if (maxStringLength > tinyTextThreshold) {
-      return "tinyText";
-    }
-    return "smallText";
-  }
-  return "";
-}
-
-function TileFace({ tile }: { tile: Tile }) {
-  if (isImageTile(tile)) {
-    return (
-      <img
-        className="nytTileImg"
-        src={tile.imageUrl}
-        alt={tile.alt}
-        loading="lazy"
-        draggable={false}
-      />
-    );
-  }
-  return <>{tile.text}</>;
-}
-
-function MistakesRemaining({ remaining }: { remaining: number }) {
-  const total = 4;
+import DatePicker from "../components/DatePicker";
+import DifficultyBadge from "../components/DifficultyBadge";
+import OpenPuzzleModal from "../components/OpenPuzzleModal";
+import PacksModal from "../components/PacksModal";
+import SolveReplay from "../components/SolveReplay";
+import TileFace from "../components/TileFace";
+import LiveRegion from "../components/LiveRegion";
+import {
+  COLORS,
+  colorLabel,
+  connectionsPuzzleNumber,
+  fallbackTiles,
+  fetchAvailableDates,
+  fetchPuzzleForDate,
+  fmtLocalYYYYMMDD,
+  getTileText,
+  getTileTextSize,
+  isImageTile,
+  isYMD,
+  loadCustomPuzzle,
+  nearestAvailableDate,
+  puzzleStorageKey,
+  type ColorKey,
+  type LoadedPuzzle,
+  type PuzzleMeta,
+  type PuzzleRequest,
+  type SolutionGroup,
+  type Tile,
+} from "../puzzle";
+import {
+  loadSavedSolveState,
+  saveSolveState,
+  type GuessOutcome,
+  type GuessRow,
+} from "../solve/savedState";
+import {
+  reduceSolve,
+  replaySolve,
+  type EngineOutcome,
+  type SolveEvent,
+  type SolveRules,
+  type SolveStart,
+} from "../solve/engine";
+import {
+  HINT_EMOJI,
+  hintedGuessRows,
+  revealedTileIds,
+  revealedTitleColors,
+  selectionSharesPair,
+  tileHintCandidates,
+  type HintRecord,
+} from "../solve/hints";
+import {
+  SPEEDRUN_LIMITS_MS,
+  TIMER_EMOJI,
+  formatClock,
+  isOutOfTime,
+  loadTimerPreference,
+  saveTimerPreference,
+  type SavedTimer,
+  type TimerConfig,
+} from "../solve/timer";
+import {
+  HARD_EMOJI,
+  HARD_MISTAKE_BUDGETS,
+  loadHardModePreference,
+  mistakeBudget,
+  saveHardModePreference,
+  type HardMode,
+} from "../solve/hardMode";
+import {
+  isOtherControl,
+  onGridArrowKey,
+  useKeyboardShortcuts,
+} from "../utils/keyboard";
+import {
+  fetchPacks,
+  loadActivePack,
+  nextUnsolvedIndex,
+  packItemLabel,
+  packProgress,
+  saveActivePack,
+  type PackItemStatus,
+  type PuzzlePack,
+} from "../packs/packs";
+import {
+  analyzePuzzle,
+  puzzleWordsFromLoaded,
+  type DifficultyReport,
+} from "../analysis/difficulty";
+import {
+  clearTileAnim,
+  flyTiles,
+  popTiles,
+  shakeTiles,
+  type TileAnimMap,
+} from "../solve/tileAnim";
+import { useAnnouncer } from "../utils/announce";
+import { correctGuessText, guessRowText, wrongGuessText } from "../solve/a11y";
+
+function MistakesRemaining({
+  remaining,
+  total,
+}: {
+  remaining: number;
+  total: number;
+}) {
   // NYT removes dots from RIGHT -> LEFT.
   const live = Math.max(0, Math.min(total, remaining));
   return (
@@ -69,627 +126,35 @@ function MistakesRemaining({ remaining }: { remaining: number }) {
   );
 }
 
-type Group = {
-  id: string;
-  color: ColorKey;
-  title?: string;
-  tileIds: string[]; // exactly 4, in the JSON order
-};
-
-type GuessRow = {
-  id: string;
-  colors: ColorKey[]; // length 4
-};
-
-const fallbackTiles: Tile[] = [
-  { id: "t1", text: "STONE", kind: "text" },
-  { id: "t2", text: "TEMPLE", kind: "text" },
-  { id: "t3", text: "PILOT", kind: "text" },
-  { id: "t4", text: "LIP", kind: "text" },
-  { id: "t5", text: "STREET", kind: "text" },
-  { id: "t6", text: "CHEEK", kind: "text" },
-  { id: "t7", text: "FOOT", kind: "text" },
-  { id: "t8", text: "TRAFFIC", kind: "text" },
-  { id: "t9", text: "EYE", kind: "text" },
-  { id: "t10", text: "ACRE", kind: "text" },
-  { id: "t11", text: "FLOOD", kind: "text" },
-  { id: "t12", text: "METER", kind: "text" },
-  { id: "t13", text: "GARAGE", kind: "text" },
-  { id: "t14", text: "LIME", kind: "text" },
-  { id: "t15", text: "BUSHEL", kind: "text" },
-  { id: "t16", text: "VALET", kind: "text" },
-];
-
-type NytConnectionsResponse = {
-  status: "OK" | string;
-  id: number;
-  print_date: string; // YYYY-MM-DD
-  editor?: string;
-  categories: Array<{
-    title: string;
-    cards: Array<
-      | { content: string; position: number }
-      | { image_url: string; image_alt_text?: string; position: number }
-    >;
-  }>;
-};
-
-type NytIndex = {
-  generated_at?: string;
-  timezone?: string;
-  anchor_print_date: string;
-  range?: { from: number; to: number };
-  available: Record<
-    string,
-    | { ok: true; printDate: string; id?: number; editor?: string }
-    | {
-        ok: false;
-        printDate: string;
-        status?: number | string;
-        statusText?: string;
-      }
-  >;
-};
-
-type AvailableDatesFile = {
-  generated_at?: string;
-  timezone?: string;
-  dates: string[]; // YYYY-MM-DD[]
-};
-
-function uid(prefix = "g") {
-  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
-}
-
-/** Prefix paths with Vite BASE_URL so it works on GitHub Pages (/connectionsplayground/...). */
-function nytUrl(path: string) {
-  const base = import.meta.env.BASE_URL; // "/" locally, "/connectionsplayground/" on Pages
-  const clean = path.replace(/^\//, "");
-  return `${base}${clean}`;
-}
-
-/** YYYY-MM-DD in *browser local time* */
-function fmtLocalYYYYMMDD(d: Date) {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(d);
-
-  const y = parts.find((p) => p.type === "year")?.value ?? "1970";
-  const m = parts.find((p) => p.type === "month")?.value ?? "01";
-  const day = parts.find((p) => p.type === "day")?.value ?? "01";
-  return `${y}-${m}-${day}`;
-}
-
-/** Parse YYYY-MM-DD as a local-midnight Date */
-
-/**
- * Public “Connections Puzzle #” derived from NYT print_date (YYYY-MM-DD).
- * Puzzle #1 = 2023-06-12
- */
-export function connectionsPuzzleNumber(printDate: string): number {
-  const [y, m, d] = printDate.split("-").map(Number);
-  const dateUtc = Date.UTC(y, m - 1, d);
-  const epochUtc = Date.UTC(2023, 5, 12); // June 12, 2023
-  return Math.floor((dateUtc - epochUtc) / 86_400_000) + 1;
-}
-
-function nytToTiles(data: NytConnectionsResponse): Tile[] {
-  const allCards = data.categories.flatMap((c) => c.cards);
-  if (allCards.length !== 16)
-    throw new Error(`Expected 16 cards, got ${allCards.length}`);
-
-  return allCards
-    .slice()
-    .sort((a, b) => a.position - b.position)
-    .map((card) => {
-      const anyCard = card as any;
-
-      if (typeof anyCard.content === "string") {
-        return {
-          id: `nyt_${data.id}_${anyCard.position}`,
-          kind: "text" as const,
-          text: anyCard.content.toUpperCase(),
-        };
-      }
-
-      if (typeof anyCard.image_url === "string") {
-        return {
-          id: `nyt_${data.id}_${anyCard.position}`,
-          kind: "image" as const,
-          imageUrl: anyCard.image_url,
-          alt: ((anyCard.image_alt_text || "image") as string).toUpperCase(),
-        };
-      }
-
-      throw new Error("Unsupported NYT card type");
-    });
-}
-
-function nytToSolutionGroups(
-  data: NytConnectionsResponse,
-): Array<{ color: ColorKey; title: string; tileIds: string[] }> {
-  // NYT categories are ordered easiest->hardest (yellow->purple)
-  const colorByIndex: ColorKey[] = ["yellow", "green", "blue", "purple"];
-
-  return data.categories.map((cat, i) => {
-    const color = colorByIndex[i] ?? "purple";
-    // Preserve the order in the JSON category definition (NOT grid position order)
-    const tileIds = cat.cards.map(
-      (card: any) => `nyt_${data.id}_${card.position}`,
-    );
-
-    return { color, title: cat.title, tileIds };
-  });
-}
-
-function pickBestDateFromIndex(
-  index: NytIndex,
-  preferredDate: string,
-): string | null {
-  const avail = index.available ?? {};
-  if (avail[preferredDate]?.ok) return preferredDate;
-  if (index.anchor_print_date && avail[index.anchor_print_date]?.ok)
-    return index.anchor_print_date;
-
-  const okDates = Object.values(avail)
-    .filter((v): v is { ok: true; printDate: string } => (v as any).ok)
-    .map((v) => v.printDate)
-    .sort();
-
-  if (okDates.length === 0) return null;
-
-  const toDayNum = (s: string) => {
-    const [yy, mm, dd] = s.split("-").map(Number);
-    return Math.floor(Date.UTC(yy, mm - 1, dd) / 86_400_000);
-  };
-
-  const target = toDayNum(preferredDate);
-  let best = okDates[0];
-  let bestDist = Math.abs(toDayNum(best) - target);
-
-  for (const d of okDates) {
-    const dist = Math.abs(toDayNum(d) - target);
-    if (dist < bestDist) {
-      best = d;
-      bestDist = dist;
-    }
-  }
-
-  return best;
-}
-
-/* ---------------- cookies: persist Solve progress (groups + guesses + mistakes) ---------------- */
-
-function cookieKeyForPrintDate(printDate: string) {
-  return `cp_solve_${printDate}`;
-}
-
-function getCookie(name: string): string | null {
-  try {
-    const parts = document.cookie.split(";").map((p) => p.trim());
-    for (const part of parts) {
-      if (!part) continue;
-      const idx = part.indexOf("=");
-      if (idx === -1) continue;
-      const k = part.slice(0, idx);
-      const v = part.slice(idx + 1);
-      if (k === name) return decodeURIComponent(v);
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function setCookie(name: string, value: string, days = 30) {
-  try {
-    const maxAge = days * 24 * 60 * 60;
-    document.cookie = `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${maxAge}; SameSite=Lax`;
-  } catch {
-    // ignore
-  }
-}
-
-type SavedSolveState = {
-  v?: 1;
-  groups?: Array<Pick<Group, "id" | "color" | "tileIds"> & { title?: string }>;
-  guesses?: Array<{ id: string; colors: ColorKey[] }>;
-  guessedKeys?: string[];
-  mistakesRemaining?: number;
-  resultsDismissed?: boolean;
-  didFail?: boolean;
+const GUESS_OUTCOME_LABELS: Record<GuessOutcome, string> = {
+  correct: "Correct",
+  "one-away": "One away",
+  wrong: "Wrong",
+  duplicate: "Repeat",
 };
 
-function loadSavedSolveState(
-  printDate: string,
-  validTileIds: Set<string>,
-): {
-  groups: Group[];
-  guesses: GuessRow[];
-  guessedKeys: string[];
-  mistakesRemaining: number;
-  resultsDismissed: boolean;
-  didFail: boolean;
-} {
-  try {
-    const raw = getCookie(cookieKeyForPrintDate(printDate));
-    if (!raw) {
-      return {
-        groups: [],
-        guesses: [],
-        guessedKeys: [],
-        mistakesRemaining: 4,
-        resultsDismissed: false, // always re-show results overlay after refresh
-        didFail: false,
-      };
-    }
-
-    const parsed = JSON.parse(raw) as SavedSolveState;
-    const rawGroups = Array.isArray(parsed.groups) ? parsed.groups : [];
-    const rawGuesses = Array.isArray(parsed.guesses) ? parsed.guesses : [];
-    const rawGuessedKeys = Array.isArray((parsed as any).guessedKeys)
-      ? ((parsed as any).guessedKeys as unknown[])
-      : [];
-
-    const cleanedGroups: Group[] = [];
-    for (const g of rawGroups) {
-      if (!g || !Array.isArray(g.tileIds) || g.tileIds.length !== 4) continue;
-      if (!g.color) continue;
-      if (
-        g.tileIds.some((id) => typeof id !== "string" || !validTileIds.has(id))
-      )
-        continue;
-      cleanedGroups.push({
-        id: typeof g.id === "string" ? g.id : uid("group"),
-        color: g.color as ColorKey,
-        title:
-          typeof (g as any).title === "string" ? (g as any).title : undefined,
-        tileIds: g.tileIds,
-      });
-    }
-
-    const cleanedGuessedKeys: string[] = [];
-    for (const k of rawGuessedKeys) {
-      if (typeof k !== "string") continue;
-      if (k.split("|").length !== 4) continue;
-      cleanedGuessedKeys.push(k);
-    }
-
-    const cleanedGuesses: GuessRow[] = [];
-    for (const gr of rawGuesses) {
-      if (!gr || typeof gr.id !== "string") continue;
-      if (!Array.isArray(gr.colors) || gr.colors.length !== 4) continue;
-      cleanedGuesses.push({
-        id: gr.id,
-        colors: gr.colors.filter(Boolean).slice(0, 4) as ColorKey[],
-      });
-    }
-
-    const mr =
-      typeof parsed.mistakesRemaining === "number" &&
-      Number.isFinite(parsed.mistakesRemaining)
-        ? Math.max(0, Math.min(4, Math.floor(parsed.mistakesRemaining)))
-        : 4;
-
-    return {
-      groups: cleanedGroups,
-      guesses: cleanedGuesses,
-      guessedKeys: cleanedGuessedKeys,
-      mistakesRemaining: mr,
-      resultsDismissed: false, // always re-show results overlay after refresh
-      didFail: Boolean((parsed as any).didFail),
-    };
-  } catch {
-    return {
-      groups: [],
-      guesses: [],
-      guessedKeys: [],
-      mistakesRemaining: 4,
-      resultsDismissed: false, // always re-show results overlay after refresh
-      didFail: false,
-    };
-  }
-}
-
-function saveSolveState(printDate: string, state: SavedSolveState) {
-  setCookie(
-    cookieKeyForPrintDate(printDate),
-    JSON.stringify({ ...state, v: 1 }),
-  );
-}
-
-/* ---------------- date helpers ---------------- */
-
-function nearestAvailableDate(
-  target: string,
-  datesAsc: string[],
-): string | null {
-  if (datesAsc.length === 0) return null;
-  if (datesAsc.includes(target)) return target;
-
-  const toDayNum = (s: string) => {
-    const [yy, mm, dd] = s.split("-").map(Number);
-    return Math.floor(Date.UTC(yy, mm - 1, dd) / 86_400_000);
-  };
-
-  const t = toDayNum(target);
-  let best = datesAsc[0];
-  let bestDist = Math.abs(toDayNum(best) - t);
-
-  for (const d of datesAsc) {
-    const dist = Math.abs(toDayNum(d) - t);
-    if (dist < bestDist) {
-      best = d;
-      bestDist = dist;
-    }
-  }
-  return best;
-}
-
-function clampToAvailable(target: string, datesAsc: string[]): string | null {
-  if (datesAsc.length === 0) return target; // no availability file? allow any
-  return nearestAvailableDate(target, datesAsc);
-}
-
-function formatDateLabel(ymd: string) {
-  const [y, m, d] = ymd.split("-").map(Number);
-  const dt = new Date(y, m - 1, d); // local calendar date
-
-  return dt.toLocaleDateString(undefined, {
-    weekday: "short",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
-
-function ymdFromUTCDate(d: Date) {
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
+function freshTimer(): SavedTimer {
+  return { ...loadTimerPreference(), started: false, elapsedMs: 0 };
 }
 
-function monthKeyFromYMD(ymd: string) {
-  return ymd.slice(0, 7); // YYYY-MM
-}
-
-/* ---------------- Sophisticated DatePicker ---------------- */
-
-function DatePicker({
-  value,
-  availableDatesAsc,
-  onChange,
-}: {
-  value: string;
-  availableDatesAsc: string[];
-  onChange: (next: string) => void;
-}) {
-  const availableSet = useMemo(
-    () => new Set(availableDatesAsc),
-    [availableDatesAsc],
-  );
-
-  const [open, setOpen] = useState(false);
-  const [month, setMonth] = useState(() => monthKeyFromYMD(value));
-  const popoverRef = useRef<HTMLDivElement | null>(null);
-
-  useEffect(() => setMonth(monthKeyFromYMD(value)), [value]);
-
-  // close on outside click + Escape
-  useEffect(() => {
-    if (!open) return;
-
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") setOpen(false);
-    };
-
-    const onDown = (e: MouseEvent) => {
-      const el = popoverRef.current;
-      if (!el) return;
-      if (!el.contains(e.target as Node)) setOpen(false);
-    };
-
-    window.addEventListener("keydown", onKey);
-    window.addEventListener("mousedown", onDown);
-    return () => {
-      window.removeEventListener("keydown", onKey);
-      window.removeEventListener("mousedown", onDown);
-    };
-  }, [open]);
-
-  const idx = availableDatesAsc.indexOf(value);
-  const hasPrev = availableDatesAsc.length > 0 ? idx > 0 : false;
-  const hasNext =
-    availableDatesAsc.length > 0
-      ? idx >= 0 && idx < availableDatesAsc.length - 1
-      : false;
-
-  const goPrev = () => {
-    if (!hasPrev) return;
-    onChange(availableDatesAsc[idx - 1]);
-  };
-
-  const goNext = () => {
-    if (!hasNext) return;
-    onChange(availableDatesAsc[idx + 1]);
-  };
-
-  const monthStartUTC = useMemo(() => {
-    const [y, m] = month.split("-").map(Number);
-    return new Date(Date.UTC(y, m - 1, 1));
-  }, [month]);
-
-  const firstDow = monthStartUTC.getUTCDay(); // 0=Sun
-  const daysInMonth = useMemo(() => {
-    const y = monthStartUTC.getUTCFullYear();
-    const m = monthStartUTC.getUTCMonth();
-    return new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
-  }, [monthStartUTC]);
-
-  const gridCells = useMemo(() => {
-    const cells: Array<{ ymd: string; inMonth: boolean; enabled: boolean }> =
-      [];
-    const start = new Date(monthStartUTC);
-    start.setUTCDate(1 - firstDow);
-
-    for (let i = 0; i < 42; i++) {
-      const d = new Date(start);
-      d.setUTCDate(start.getUTCDate() + i);
-
-      const ymd = ymdFromUTCDate(d);
-      const inMonth = d.getUTCMonth() === monthStartUTC.getUTCMonth();
-      const enabled =
-        availableDatesAsc.length > 0 ? availableSet.has(ymd) : true;
-
-      cells.push({ ymd, inMonth, enabled });
-    }
-    return cells;
-  }, [monthStartUTC, firstDow, availableSet, availableDatesAsc.length]);
-
-  const moveMonth = (delta: number) => {
-    const y = monthStartUTC.getUTCFullYear();
-    const m = monthStartUTC.getUTCMonth();
-    const next = new Date(Date.UTC(y, m + delta, 1));
-    setMonth(ymdFromUTCDate(next).slice(0, 7));
-  };
-
-  const jumpTo = (ymd: string) => {
-    const next = clampToAvailable(ymd, availableDatesAsc);
-    if (next) onChange(next);
-    setOpen(false);
-  };
-
-  const monthTitle = useMemo(() => {
-    const mid = new Date(monthStartUTC);
-    mid.setUTCDate(Math.min(15, daysInMonth));
-    return mid.toLocaleDateString(undefined, {
-      month: "long",
-      year: "numeric",
-    });
-  }, [monthStartUTC, daysInMonth]);
-
-  return (
-    <div className="nytDatePicker" ref={popoverRef}>
-      <button
-        className="nytNavBtn"
-        type="button"
-        disabled={!hasPrev}
-        onClick={goPrev}
-        aria-label="Previous date"
-      >
-        ‹
-      </button>
-
-      <button
-        className="nytDateBtn"
-        type="button"
-        onClick={() => setOpen((v) => !v)}
-        aria-haspopup="dialog"
-        aria-expanded={open}
-        title="Pick a date"
-      >
-        {formatDateLabel(value)}
-      </button>
-
-      <button
-        className="nytNavBtn"
-        type="button"
-        disabled={!hasNext}
-        onClick={goNext}
-        aria-label="Next date"
-      >
-        ›
-      </button>
-
-      <button
-        className="nytTodayBtn"
-        type="button"
-        onClick={() => onChange(fmtLocalYYYYMMDD(new Date()))}
-      >
-        Today
-      </button>
-
-      {open && (
-        <div className="nytCal" role="dialog" aria-label="Date picker">
-          <div className="nytCalHeader">
-            <button
-              className="nytCalArrow"
-              type="button"
-              onClick={() => moveMonth(-1)}
-              aria-label="Previous month"
-            >
-              ‹
-            </button>
-            <div className="nytCalMonth">{monthTitle}</div>
-            <button
-              className="nytCalArrow"
-              type="button"
-              onClick={() => moveMonth(1)}
-              aria-label="Next month"
-            >
-              ›
-            </button>
-          </div>
-
-          <div className="nytCalDow">
-            {["S", "M", "T", "W", "T", "F", "S"].map((d) => (
-              <div key={d} className="nytCalDowCell">
-                {d}
-              </div>
-            ))}
-          </div>
-
-          <div className="nytCalGrid">
-            {gridCells.map((c) => {
-              const day = c.ymd.slice(8, 10);
-              const isSelected = c.ymd === value;
-
-              const cls = [
-                "nytCalCell",
-                c.inMonth ? "inMonth" : "outMonth",
-                c.enabled ? "enabled" : "disabled",
-                isSelected ? "selected" : "",
-              ]
-                .filter(Boolean)
-                .join(" ");
-
-              return (
-                <button
-                  key={c.ymd}
-                  type="button"
-                  className={cls}
-                  disabled={!c.enabled}
-                  onClick={() => jumpTo(c.ymd)}
-                  title={c.enabled ? c.ymd : "Not available"}
-                >
-                  {String(Number(day))}
-                </button>
-              );
-            })}
-          </div>
-
-          <button
-            className="nytCalClose"
-            type="button"
-            onClick={() => setOpen(false)}
-          >
-            Close
-          </button>
-        </div>
-      )}
-    </div>
-  );
+// <select> value for a timer config: "off" | "timed" | "speedrun:<ms>"
+function timerOptionValue(config: TimerConfig) {
+  return config.mode === "speedrun"
+    ? `speedrun:${config.limitMs}`
+    : config.mode;
 }
 
 export default function Solve({
   initialPrintDate,
+  puzzleRequest,
+  isActive = true,
 }: {
   initialPrintDate?: string | null;
+  /** a puzzle from outside the date picker, e.g. an editor link */
+  puzzleRequest?: PuzzleRequest | null;
+  /** false while another tab's panel is shown (pauses the clock) */
+  isActive?: boolean;
 }) {
-    const [tiles, setTiles] = useState<Tile[]>(fallbackTiles);
   const [baseTiles, setBaseTiles] = useState<Tile[]>(fallbackTiles);
 
   const baseTilesById = useMemo(() => {
@@ -697,26 +162,85 @@ export default function Solve({
     for (const t of baseTiles) m.set(t.id, t);
     return m;
   }, [baseTiles]);
-  const [groups, setGroups] = useState<Group[]>([]);
-  const [solutionGroups, setSolutionGroups] = useState<
-    Array<{ color: ColorKey; title: string; tileIds: string[] }>
-  >([]);
-  const [mistakesRemaining, setMistakesRemaining] = useState(4);
-  const [selected, setSelected] = useState<Set<string>>(new Set());
-  const [selectedOrder, setSelectedOrder] = useState<string[]>([]);
-  const [guesses, setGuesses] = useState<GuessRow[]>([]);
-  const [guessedKeys, setGuessedKeys] = useState<string[]>([]);
+  const [solutionGroups, setSolutionGroups] = useState<SolutionGroup[]>([]);
+  const [hard, setHard] = useState<HardMode | null>(loadHardModePreference);
+  const budget = mistakeBudget(hard);
+
+  // The game is its event log; everything on the board is replayed from it.
+  const [events, setEvents] = useState<SolveEvent[]>([]);
+  const [engineStart, setEngineStart] = useState<SolveStart | null>(null);
+  const rules = useMemo<SolveRules>(
+    () => ({
+      tileIds: baseTiles.map((t) => t.id),
+      solutionGroups,
+      hard: hard !== null,
+      mistakeBudget: budget,
+      words: Object.fromEntries(baseTiles.map((t) => [t.id, getTileText(t)])),
+    }),
+    [baseTiles, solutionGroups, hard, budget],
+  );
+  const game = useMemo(
+    () => replaySolve(rules, events, engineStart),
+    [rules, events, engineStart],
+  );
+  const { groups, guesses, mistakesRemaining } = game;
+  const didFail = game.failed;
+  const practice = game.practice;
+  const selected = useMemo(() => new Set(game.selected), [game.selected]);
+  const logEvent = (event: SolveEvent) => setEvents((prev) => [...prev, event]);
+  // Apply events now, in order; returns the outcomes for animation/announcements.
+  const dispatch = (...batch: SolveEvent[]) => {
+    let state = game;
+    const logged: SolveEvent[] = [];
+    const outcomes: EngineOutcome[] = [];
+    for (const event of batch) {
+      const step = reduceSolve(rules, state, event);
+      if (step.state !== state) logged.push(event);
+      state = step.state;
+      outcomes.push(...step.outcomes);
+    }
+    if (logged.length > 0) setEvents((prev) => [...prev, ...logged]);
+    return outcomes;
+  };
+
+  // Pencil marks: the player's tentative colors, not part of the game.
+  // Marks on solved tiles are dropped.
+  const [markMode, setMarkMode] = useState(false);
+  const [pencilMarks, setPencilMarks] = useState<Record<string, ColorKey>>({});
+  const marks = useMemo(() => {
+    const out: Record<string, ColorKey> = {};
+    for (const id of game.order) if (pencilMarks[id]) out[id] = pencilMarks[id];
+    return out;
+  }, [pencilMarks, game.order]);
+
+  const [hints, setHints] = useState<HintRecord[]>([]);
+  const [showHints, setShowHints] = useState(false);
+  const [timer, setTimer] = useState<SavedTimer>(freshTimer);
+  const [pageVisible, setPageVisible] = useState(
+    () => document.visibilityState !== "hidden",
+  );
+  // Bumped whenever the clock is replaced (load/reset): restarts the ticking
+  // effect, and keeps a pausing tick from the previous puzzle out of the new one.
+  const [timerEpoch, setTimerEpoch] = useState(0);
+  const timerEpochRef = useRef(0);
+  const replaceTimer = (next: SavedTimer) => {
+    timerEpochRef.current++;
+    setTimerEpoch(timerEpochRef.current);
+    setTimer(next);
+  };
   const [snack, setSnack] = useState<string | null>(null);
+  // Screen-reader announcements; the snackbar itself is hidden from AT.
+  const [announcement, announce] = useAnnouncer();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [tileAnim, setTileAnim] = useState<
-    Record<string, "pop" | "shake" | "fly" | undefined>
-  >({});
+  const [tileAnim, setTileAnim] = useState<TileAnimMap>({});
   const completionJustHappenedRef = useRef(false);
   const didReloadRef = useRef(false);
 
   const sleep = (ms: number) =>
     new Promise<void>((r) => window.setTimeout(r, ms));
   const [showResults, setShowResults] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showFailChoice, setShowFailChoice] = useState(false);
   const [resultsDismissed, setResultsDismissed] = useState(false);
 
   // On a hard page refresh, allow the results modal to auto-open again even if it was opened before.
@@ -728,15 +252,11 @@ export default function Solve({
     }
   }, []);
 
-  const [didFail, setDidFail] = useState(false);
   // puzzle load status
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [nytMeta, setNytMeta] = useState<{
-    id: number;
-    print_date: string;
-    editor?: string;
-  } | null>(null);
+  const [nytMeta, setNytMeta] = useState<PuzzleMeta | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultyReport | null>(null);
   const [requestedDate, setRequestedDate] = useState<string | null>(null);
 
   // keep the real solution tile ids by color for current loaded puzzle
@@ -746,25 +266,23 @@ export default function Solve({
     fmtLocalYYYYMMDD(new Date()),
   );
 
-  const groupedTileIds = useMemo(() => {
-    const s = new Set<string>();
-    for (const g of groups) for (const id of g.tileIds) s.add(id);
-    return s;
-  }, [groups]);
-
   const ungroupedTiles = useMemo(
-    () => tiles.filter((t) => !groupedTileIds.has(t.id)),
-    [tiles, groupedTileIds],
+    () =>
+      game.order
+        .map((id) => baseTilesById.get(id))
+        .filter((t): t is Tile => Boolean(t)),
+    [game.order, baseTilesById],
   );
 
   const selectedCount = selected.size;
 
   const isSolved = groups.length === 4;
 
-  // ESC closes color modal + solve confirm modal
+  // ESC closes the hints modal
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
       if (e.key !== "Escape") return;
+      setShowHints(false);
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
@@ -772,182 +290,311 @@ export default function Solve({
 
   // Load available-dates.json (truth from disk)
   useEffect(() => {
-    (async () => {
-      try {
-        const data = await fetchJsonCached<AvailableDatesFile>(
-          nytUrl("nyt/available-dates.json"),
-        );
-        const dates = Array.isArray(data.dates)
-          ? data.dates.slice().sort()
-          : [];
-        setAvailableDatesAsc(dates);
-      } catch {
-        setAvailableDatesAsc([]);
-      }
-    })();
+    fetchAvailableDates().then(setAvailableDatesAsc);
   }, []);
   // Prevent older async loads from overwriting newer ones (deep-link race fix)
   const loadSeqRef = useRef(0);
 
-  async function loadPuzzleByDate(dateStr: string) {
+  async function loadPuzzle(
+    label: string,
+    getPuzzle: () => Promise<LoadedPuzzle>,
+  ) {
     setLoading(true);
     setError(null);
-    setRequestedDate(dateStr);
+    setRequestedDate(label);
 
     const seq = ++loadSeqRef.current;
 
-    const applyLoadedPuzzle = (data: NytConnectionsResponse) => {
+    const applyLoadedPuzzle = (puzzle: LoadedPuzzle) => {
       if (seq !== loadSeqRef.current) return;
-      const nextTiles = nytToTiles(data);
+      const nextTiles = puzzle.tiles;
       const tileIdSet = new Set(nextTiles.map((t) => t.id));
+      const storageKey = puzzleStorageKey(puzzle.meta);
 
-      setNytMeta({
-        id: data.id,
-        print_date: data.print_date,
-        editor: data.editor,
-      });
-      setTiles(nextTiles);
+      setNytMeta(puzzle.meta);
+      setDifficulty(analyzePuzzle(puzzleWordsFromLoaded(puzzle)));
       setBaseTiles(nextTiles);
-      setSolutionGroups(nytToSolutionGroups(data));
-      // defaults (may be overridden by cookie restore below)
-      setMistakesRemaining(4);
-      setGuesses([]);
-      setGuessedKeys([]);
+      setSolutionGroups(puzzle.solutionGroups);
+      setShowHints(false);
       setSnack(null);
       setShowResults(false);
-      setResultsDismissed(false);
+      setShowReplay(false);
+      setShowFailChoice(false);
+      setMarkMode(false);
       completionJustHappenedRef.current = false;
-      setDidFail(false);
-      setSelectedOrder([]);
-
-      // solution for Solve button
-      // restore saved Solve progress for this print_date (cookies)
-      const saved = loadSavedSolveState(data.print_date, tileIdSet);
-      setGroups(saved.groups);
-      setGuesses(saved.guesses);
-      setGuessedKeys(saved.guessedKeys);
-      setMistakesRemaining(saved.mistakesRemaining);
+
+      // restore saved Solve progress for this puzzle
+      const saved = loadSavedSolveState(storageKey, tileIdSet);
+      setEvents(saved.events);
+      setEngineStart(saved.start);
+      // A puzzle keeps the mode it was started in; fresh ones use the preference.
+      const started = saved.guesses.length > 0 || saved.groups.length > 0;
+      setHard(started ? saved.hard : loadHardModePreference());
       setResultsDismissed(saved.resultsDismissed);
-      setDidFail(saved.didFail);
+      setHints(saved.hints);
+      setPencilMarks(saved.marks);
+      replaceTimer(saved.timer ?? freshTimer());
 
       // keep picker in sync with actual loaded date
-      setPickedDate(data.print_date);
+      if (!puzzle.meta.custom) setPickedDate(puzzle.meta.print_date);
 
-      setSelected(new Set());
       setLoading(false);
     };
 
-    // Try exact date file FIRST (so old dates load properly)
     try {
-      const data = await fetchJsonCached<NytConnectionsResponse>(
-        nytUrl(`nyt/${dateStr}.json`),
+      applyLoadedPuzzle(await getPuzzle());
+    } catch (e) {
+      if (seq !== loadSeqRef.current) return;
+      setError(
+        e instanceof Error
+          ? e.message
+          : "Failed to load local NYT puzzle files",
       );
-      if (data.status !== "OK")
-        throw new Error(`Puzzle status not OK: ${data.status}`);
-      applyLoadedPuzzle(data);
-      return;
-    } catch {
-      // fall through
+      setLoading(false);
     }
+  }
 
-    // Then try index.json best match (for near-today window, future, etc.)
-    try {
-      const index = await fetchJsonCached<NytIndex>(nytUrl("nyt/index.json"));
-      const bestDate = pickBestDateFromIndex(index, dateStr);
-
-      if (bestDate) {
-        const data = await fetchJsonCached<NytConnectionsResponse>(
-          nytUrl(`nyt/${bestDate}.json`),
-        );
-        if (data.status !== "OK")
-          throw new Error(`Puzzle status not OK: ${data.status}`);
-        applyLoadedPuzzle(data);
-        return;
-      }
-    } catch {
-      // fall through
+  const loadPuzzleByDate = (dateStr: string) =>
+    loadPuzzle(dateStr, () => fetchPuzzleForDate(dateStr));
+
+  const [showOpen, setShowOpen] = useState(false);
+
+  /* ---------------- puzzle packs ---------------- */
+
+  // While a pack is active its prev/next/next-unsolved row replaces the DatePicker.
+  const [activePack, setActivePack] = useState<PuzzlePack | null>(null);
+  const [packIndex, setPackIndex] = useState(0);
+  const [packStatuses, setPackStatuses] = useState<PackItemStatus[]>([]);
+  const [showPacks, setShowPacks] = useState(false);
+
+  const loadPackItem = (pack: PuzzlePack, index: number) => {
+    const item = pack.items[index];
+    setActivePack(pack);
+    setPackIndex(index);
+    saveActivePack({ id: pack.id, index });
+    if (item.kind === "date") {
+      setPickedDate(item.printDate);
+      loadPuzzleByDate(item.printDate);
+    } else {
+      loadPuzzle(packItemLabel(item), () => loadCustomPuzzle(item.encoded));
     }
+  };
 
-    // Finally latest.json
-    try {
-      const data = await fetchJsonCached<NytConnectionsResponse>(
-        nytUrl("nyt/latest.json"),
-      );
-      if (data.status !== "OK")
-        throw new Error(`Puzzle status not OK: ${data.status}`);
-      applyLoadedPuzzle(data);
+  const leavePack = () => {
+    setActivePack(null);
+    setPackStatuses([]);
+    saveActivePack(null);
+  };
+
+  // Resume the pack from last session; today's puzzle if it no longer exists.
+  async function restorePack(active: { id: string; index: number }) {
+    const seq = loadSeqRef.current;
+    const pack = (await fetchPacks()).find((p) => p.id === active.id);
+    if (seq !== loadSeqRef.current) return; // something else was opened meanwhile
+    if (!pack) {
+      saveActivePack(null);
+      loadPuzzleByDate(fmtLocalYYYYMMDD(new Date()));
       return;
-    } catch (e: any) {
-      setError(e?.message ?? "Failed to load local NYT puzzle files");
-      setLoading(false);
     }
+    loadPackItem(pack, Math.min(active.index, pack.items.length - 1));
   }
 
   // Default on load/reload: current local day — unless App deep-linked a specific date/number
   const initialAppliedRef = useRef<string | null>(null);
   useEffect(() => {
-    const fromRoute =
-      typeof initialPrintDate === "string" &&
-      /^\d{4}-\d{2}-\d{2}$/.test(initialPrintDate)
-        ? initialPrintDate
-        : null;
+    const fromRoute = isYMD(initialPrintDate) ? initialPrintDate : null;
 
     const desired = fromRoute ?? fmtLocalYYYYMMDD(new Date());
     if (initialAppliedRef.current === desired) return;
+    const firstLoad = initialAppliedRef.current === null;
     initialAppliedRef.current = desired;
 
+    const savedPack = firstLoad && !fromRoute && !puzzleRequest;
+    const active = savedPack ? loadActivePack() : null;
+    if (active) {
+      restorePack(active);
+      return;
+    }
+
+    if (fromRoute) leavePack();
     setPickedDate(desired);
     loadPuzzleByDate(desired);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialPrintDate]);
 
-  // Persist Solve progress whenever it changes (keyed by the puzzle print_date)
-  const storagePrintDate = nytMeta?.print_date ?? null;
   useEffect(() => {
-    if (!storagePrintDate) return;
-    saveSolveState(storagePrintDate, {
+    if (!puzzleRequest) return;
+    leavePack();
+    loadPuzzle(puzzleRequest.label, () => puzzleRequest.puzzle);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [puzzleRequest]);
+
+  // Persist Solve progress whenever it changes (keyed by print date / custom key)
+  const storageKey = nytMeta ? puzzleStorageKey(nytMeta) : null;
+  useEffect(() => {
+    if (!storageKey) return;
+    saveSolveState(storageKey, {
+      events,
+      start: engineStart ?? undefined,
       groups,
       guesses,
-      guessedKeys,
       mistakesRemaining,
       resultsDismissed,
       didFail,
+      practice: practice || undefined,
+      marks: Object.keys(marks).length > 0 ? marks : undefined,
+      hints,
+      timer: timer.mode === "off" ? undefined : timer,
+      hard: hard ?? undefined,
     });
   }, [
+    events,
+    engineStart,
     groups,
     guesses,
-    guessedKeys,
     mistakesRemaining,
     resultsDismissed,
     didFail,
-    storagePrintDate,
+    practice,
+    marks,
+    hints,
+    timer,
+    hard,
+    storageKey,
   ]);
 
-  const toggleSelect = (tileId: string) => {
-    if (groupedTileIds.has(tileId)) return;
-
-    setSelected((prev) => {
-      const next = new Set(prev);
-      const had = next.has(tileId);
-      if (had) {
-        next.delete(tileId);
-      } else {
-        if (next.size >= 4) return next;
-        next.add(tileId);
-      }
+  // Pack progress comes from the saved states, so re-read it as this one changes.
+  const guessCount = guesses.length;
+  useEffect(() => {
+    if (!activePack) return;
+    let cancelled = false;
+    packProgress(activePack).then((p) => {
+      if (!cancelled) setPackStatuses(p.statuses);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activePack, storageKey, guessCount, isSolved, didFail]);
 
-      setSelectedOrder((order) => {
-        if (had) return order.filter((id) => id !== tileId);
-        return [...order, tileId];
+  const nextUnsolved = activePack
+    ? nextUnsolvedIndex(packStatuses, packIndex)
+    : null;
+  const packWon = packStatuses.filter((s) => s === "won").length;
+
+  /* ---------------- clock ---------------- */
+
+  const outOfTime = isOutOfTime(timer);
+  const timerRunning =
+    timer.mode !== "off" &&
+    timer.started &&
+    !isSolved &&
+    !didFail &&
+    isActive &&
+    pageVisible;
+
+  useEffect(() => {
+    const onVis = () => setPageVisible(document.visibilityState !== "hidden");
+    document.addEventListener("visibilitychange", onVis);
+    return () => document.removeEventListener("visibilitychange", onVis);
+  }, []);
+
+  useEffect(() => {
+    if (!timerRunning) return;
+    const epoch = timerEpochRef.current;
+    let last = performance.now();
+    const tick = () => {
+      if (epoch !== timerEpochRef.current) return;
+      const now = performance.now();
+      const delta = now - last;
+      last = now;
+      setTimer((t) => {
+        const elapsedMs = t.elapsedMs + delta;
+        return {
+          ...t,
+          elapsedMs:
+            t.mode === "speedrun" ? Math.min(t.limitMs, elapsedMs) : elapsedMs,
+        };
       });
+    };
+    const id = window.setInterval(tick, 500);
+    return () => {
+      window.clearInterval(id);
+      tick(); // bank the partial interval when pausing
+    };
+  }, [timerRunning, timerEpoch]);
+
+  // Mode can only change before the first guess.
+  const onHardModeChange = (value: string) => {
+    if (guesses.length > 0) return;
+    const next = value === "normal" ? null : { mistakeBudget: Number(value) };
+    saveHardModePreference(next);
+    setHard(next);
+  };
+
+  const onTimerOptionChange = (value: string) => {
+    const config: TimerConfig = value.startsWith("speedrun:")
+      ? { mode: "speedrun", limitMs: Number(value.slice("speedrun:".length)) }
+      : { mode: value === "timed" ? "timed" : "off", limitMs: timer.limitMs };
+    saveTimerPreference(config);
+    setTimer((t) => ({ ...t, ...config }));
+  };
 
-      return next;
+  // The clock starts on the first selection.
+  const startClock = () => {
+    if (timer.mode !== "off" && !timer.started) {
+      setTimer((t) => ({ ...t, started: true }));
+    }
+  };
+
+  const toggleSelect = (tileId: string) => {
+    if (outOfTime) return;
+    if (markMode) {
+      cycleMark(tileId);
+      return;
+    }
+    startClock();
+    dispatch({ type: selected.has(tileId) ? "deselect" : "select", tileId });
+  };
+
+  const clearSelection = () => dispatch({ type: "deselectAll" });
+
+  /* ---------------- pencil marks ---------------- */
+
+  // No mark → yellow → green → blue → purple → no mark
+  const cycleMark = (tileId: string) => {
+    const i = COLORS.findIndex((c) => c.key === marks[tileId]);
+    const next = COLORS[i + 1]?.key;
+    setPencilMarks((prev) => {
+      const out = { ...prev };
+      if (next) out[tileId] = next;
+      else delete out[tileId];
+      return out;
     });
+    announce(
+      next ? `Marked ${colorLabel(next).toLowerCase()}.` : "Mark cleared.",
+    );
+  };
+
+  const markedTileIds = (color: ColorKey) =>
+    game.order.filter((id) => marks[id] === color);
+
+  // Stage a guess from the tiles marked `color` (at most four).
+  const selectMarked = (color: ColorKey) => {
+    const ids = markedTileIds(color);
+    if (ids.length === 0 || ids.length > 4 || outOfTime) return;
+    startClock();
+    dispatch(
+      { type: "deselectAll" },
+      ...ids.map((tileId): SolveEvent => ({ type: "select", tileId })),
+    );
+    announce(
+      `Selected ${ids.length} ${colorLabel(color).toLowerCase()} tile${ids.length === 1 ? "" : "s"}.`,
+    );
   };
 
-  const clearSelection = () => {
-    setSelected(new Set());
-    setSelectedOrder([]);
+  const clearMarks = () => {
+    setPencilMarks({});
+    announce("Marks cleared.");
   };
 
   const tileIdToColor = useMemo(() => {
@@ -961,17 +608,61 @@ export default function Solve({
   const colorToEmoji = (c: ColorKey) =>
     c === "yellow" ? "🟨" : c === "green" ? "🟩" : c === "blue" ? "🟦" : "🟪";
 
+  // Guess rows that came right after a hint get a marker in results + share.
+  const hintedRows = useMemo(
+    () => hintedGuessRows(hints, guesses.length),
+    [hints, guesses.length],
+  );
+
   const shareText = useMemo(() => {
     if (!nytMeta?.print_date) return "";
-    const num = connectionsPuzzleNumber(nytMeta.print_date);
-    const lines = guesses.map((g) => g.colors.map(colorToEmoji).join(""));
-    return ["Connections", `Puzzle #${num}`, ...lines].join("\n");
-  }, [guesses, nytMeta?.print_date]);
+    const lines = guesses.flatMap((g, i) => {
+      const row =
+        g.colors.map(colorToEmoji).join("") +
+        (hintedRows[i] ? ` ${HINT_EMOJI}` : "");
+      // Practice rows go under their own heading, after the real game.
+      return g.postFail && !guesses[i - 1]?.postFail
+        ? ["Practice after failing:", row]
+        : [row];
+    });
+    const header = [
+      nytMeta.custom
+        ? (nytMeta.custom.name ?? "Custom puzzle")
+        : `Puzzle #${connectionsPuzzleNumber(nytMeta.print_date)}`,
+    ];
+    if (hard)
+      header.push(
+        `${HARD_EMOJI} Hard` +
+          (hard.mistakeBudget < 4 ? ` (${hard.mistakeBudget} mistakes)` : ""),
+      );
+    if (timer.mode !== "off" && timer.started)
+      header.push(
+        `${TIMER_EMOJI} ${formatClock(timer.elapsedMs)}` +
+          (timer.mode === "speedrun" ? `/${formatClock(timer.limitMs)}` : ""),
+      );
+    if (hints.length > 0)
+      header.push(
+        `${HINT_EMOJI} ${hints.length} hint${hints.length === 1 ? "" : "s"}`,
+      );
+    return ["Connections", header.join(" "), ...lines].join("\n");
+  }, [
+    guesses,
+    hints.length,
+    hintedRows,
+    hard,
+    timer.mode,
+    timer.started,
+    timer.elapsedMs,
+    timer.limitMs,
+    nytMeta?.print_date,
+    nytMeta?.custom,
+  ]);
 
   const copyResults = async () => {
     try {
       await navigator.clipboard.writeText(shareText);
       setSnack("Copied!");
+      announce("Results copied to the clipboard.");
       window.setTimeout(() => setSnack(null), 2000);
     } catch {
       // Fallback: prompt
@@ -982,148 +673,180 @@ export default function Solve({
       }
     }
   };
+  /* ---------------- hints ---------------- */
+
+  const hintTileIds = useMemo(() => revealedTileIds(hints), [hints]);
+  const hintTitleColors = useMemo(() => revealedTitleColors(hints), [hints]);
+  const hintsAvailable =
+    solutionGroups.length === 4 &&
+    !isSolved &&
+    mistakesRemaining > 0 &&
+    !outOfTime &&
+    !isSubmitting;
+
+  const isColorSolved = (color: ColorKey) =>
+    groups.some((g) => g.color === color);
+
+  const showHintSnack = (msg: string) => {
+    setShowHints(false);
+    setSnack(msg);
+    announce(`Hint: ${msg}.`);
+    window.setTimeout(() => setSnack(null), 2000);
+  };
+
+  const takeTileHint = (color: ColorKey) => {
+    if (!hintsAvailable || isColorSolved(color)) return;
+    const candidates = tileHintCandidates(solutionGroups, color, hints);
+    if (candidates.length === 0) return;
+    const tileId = candidates[Math.floor(Math.random() * candidates.length)];
+    setHints((prev) => [
+      ...prev,
+      { kind: "tile", color, tileId, atGuess: guesses.length },
+    ]);
+    const tile = baseTilesById.get(tileId);
+    showHintSnack(
+      tile ? `${getTileText(tile)} is ${color}` : `Revealed a ${color} tile`,
+    );
+  };
+
+  const takeTitleHint = (color: ColorKey) => {
+    if (!hintsAvailable || isColorSolved(color)) return;
+    if (hintTitleColors.has(color)) return;
+    setHints((prev) => [
+      ...prev,
+      { kind: "title", color, atGuess: guesses.length },
+    ]);
+    showHintSnack(`Revealed the ${color} category`);
+  };
+
+  const takePairHint = () => {
+    if (!hintsAvailable || selected.size !== 4) return;
+    const shared = selectionSharesPair(solutionGroups, Array.from(selected));
+    setHints((prev) => [
+      ...prev,
+      { kind: "pair", shared, atGuess: guesses.length },
+    ]);
+    showHintSnack(
+      shared
+        ? "At least two of these belong together"
+        : "No two of these belong together",
+    );
+  };
+
+  // Rows saved before words were recorded have neither.
+  const guessWords = (g: GuessRow) =>
+    g.words ??
+    g.tileIds?.map((id) => {
+      const t = baseTilesById.get(id);
+      return t ? getTileText(t) : "?";
+    });
+
+  const describeHint = (h: HintRecord) => {
+    if (h.kind === "pair")
+      return `Pair check: ${h.shared ? "shared a pair" : "no pair"}`;
+    const label = h.color ? colorLabel(h.color) : "";
+    const sg = solutionGroups.find((x) => x.color === h.color);
+    if (h.kind === "title") return `${label} category: ${sg?.title ?? "?"}`;
+    const tile = h.tileId ? baseTilesById.get(h.tileId) : undefined;
+    return `${label} tile: ${tile ? getTileText(tile) : "?"}`;
+  };
+
   const onSubmit = async () => {
     if (isSubmitting) return;
     if (selected.size !== 4) return;
-    if (mistakesRemaining <= 0) return;
-
-    // Preserve the user's click order (fallback to set order)
-    const pickedInOrder = selectedOrder.filter((id) => selected.has(id));
-    const pickedRaw =
-      pickedInOrder.length === 4 ? pickedInOrder : Array.from(selected);
-    const pickedSorted = pickedRaw.slice().sort();
-
-    // Duplicate guess detection (order-independent) — no animation, no penalty.
-    const guessKey = pickedSorted.join("|");
-    if (guessedKeys.includes(guessKey)) {
+    if (mistakesRemaining <= 0 && !practice) return;
+    if (outOfTime) return;
+
+    // The engine decides what the guess does up front; it's only logged (and
+    // the board updated) once its animation has played.
+    const event: SolveEvent = { type: "submit" };
+    const step = reduceSolve(rules, game, event);
+    const picked = game.selected;
+    const wrong = step.outcomes.find((o) => o.type === "wrong");
+    const correct = step.outcomes.find((o) => o.type === "correct");
+
+    // Outside hard mode a repeat is pointed out with no animation, no penalty.
+    const isRepeat =
+      step.outcomes.some((o) => o.type === "duplicate") || wrong?.repeat;
+    if (isRepeat) {
       setSnack("Already guessed");
       window.setTimeout(() => setSnack(null), 2000);
+    }
+    if (step.state === game) {
+      if (isRepeat) announce("Already guessed.");
       return;
     }
 
     setIsSubmitting(true);
 
-    // "Pop" the 4 selected tiles in sequence (NYT-style)
-    for (const id of pickedRaw.slice(0, 4)) {
-      setTileAnim((prev) => ({ ...prev, [id]: "pop" }));
-      await sleep(90);
-      setTileAnim((prev) => {
-        const next = { ...prev };
-        if (next[id] === "pop") delete next[id];
-        return next;
-      });
-      await sleep(40);
-    }
+    await popTiles(setTileAnim, picked, sleep);
 
-    const match = solutionGroups.find((sg) => {
-      if (groups.some((g) => g.color === sg.color)) return false; // already solved
-      const sol = sg.tileIds.slice().sort();
-      for (let i = 0; i < sol.length; i++) {
-        if (sol[i] !== pickedSorted[i]) return false;
-      }
-      return true;
-    });
-
-    // Record guess row in the exact order shown to the user (only for new guesses)
-    const rowColors = pickedRaw
-      .slice(0, 4)
-      .map((id) => tileIdToColor.get(id) ?? "purple");
-    if (rowColors.length === 4) {
-      setGuesses((prev) => [...prev, { id: uid("guess"), colors: rowColors }]);
-      setGuessedKeys((prev) => [...prev, guessKey]);
-    }
-
-    if (!match) {
-      // "One away…" if this guess has 3/4 from any unsolved group.
-      const pickedSet = new Set(pickedRaw);
-      const oneAway = solutionGroups.some((sg) => {
-        if (groups.some((g) => g.color === sg.color)) return false;
-        let inGroup = 0;
-        for (const id of sg.tileIds) if (pickedSet.has(id)) inGroup++;
-        return inGroup === 3;
-      });
-      if (oneAway) {
+    if (wrong) {
+      if (wrong.oneAway) {
         setSnack("One away…");
         window.setTimeout(() => setSnack(null), 2000);
       }
 
-      // Wrong: shake all 4 for 1s, then take a mistake. Keep selection.
-      for (const id of pickedRaw.slice(0, 4)) {
-        setTileAnim((prev) => ({ ...prev, [id]: "shake" }));
-      }
-      await sleep(1000);
-      setTileAnim((prev) => {
-        const next = { ...prev };
-        for (const id of pickedRaw.slice(0, 4)) {
-          if (next[id] === "shake") delete next[id];
-        }
-        return next;
-      });
+      // Wrong: shake, then take a mistake. Keep selection.
+      await shakeTiles(setTileAnim, picked, sleep);
 
-      setMistakesRemaining((m) => Math.max(0, m - 1));
-      setIsSubmitting(false);
-      return;
-    }
+      logEvent(event);
+      announce(wrongGuessText(wrong));
+    } else if (correct) {
+      // Correct: fly tiles upward, then commit the group.
+      await flyTiles(setTileAnim, picked, sleep);
 
-    // Correct: fly tiles upward, then commit group + remove tiles.
-    for (const id of pickedRaw.slice(0, 4)) {
-      setTileAnim((prev) => ({ ...prev, [id]: "fly" }));
-    }
-    await sleep(430);
+      if (step.outcomes.some((o) => o.type === "solved")) {
+        completionJustHappenedRef.current = true;
+      }
+      logEvent(event);
+      announce(
+        correctGuessText(correct.group.color, correct.group.title ?? ""),
+      );
 
-    if (groups.length === 3) {
-      completionJustHappenedRef.current = true;
+      clearTileAnim(setTileAnim, picked);
     }
 
-    const newGroup: Group = {
-      id: uid("g"),
-      color: match.color,
-      title: match.title,
-      tileIds: match.tileIds,
-    };
-
-    setGroups((prev) => [...prev, newGroup]);
-    setTiles((prev) => prev.filter((t) => !new Set(match.tileIds).has(t.id)));
-
-    // Clean up animation state and selection
-    setTileAnim((prev) => {
-      const next = { ...prev };
-      for (const id of pickedRaw.slice(0, 4)) delete next[id];
-      return next;
-    });
-    clearSelection();
     setIsSubmitting(false);
   };
 
   const revealSolution = () => {
-    // Fill in any remaining unsolved groups, remove remaining tiles.
-    const solvedColors = new Set(groups.map((g) => g.color));
-    const nextGroups: Group[] = [...groups];
-    for (const sg of solutionGroups) {
-      if (solvedColors.has(sg.color)) continue;
-      nextGroups.push({
-        id: uid("g"),
-        color: sg.color,
-        title: sg.title,
-        tileIds: sg.tileIds,
-      });
-    }
-    setGroups(nextGroups);
-    setTiles([]);
-    clearSelection();
+    setShowFailChoice(false);
+    logEvent({ type: "reveal" });
+    announce("The solution has been revealed.");
+    setShowResults(true);
+  };
+
+  const keepPracticing = () => {
+    setShowFailChoice(false);
+    dispatch({ type: "practice" });
+    announce("Practice mode: further guesses are marked as practice.");
   };
 
-  // If the user runs out of mistakes, show snackbar + auto-solve.
+  // Out of mistakes: snackbar, then let the player pick between seeing the
+  // solution and practicing on. Out of speedrun time: snackbar + auto-solve.
   useEffect(() => {
-    if (mistakesRemaining > 0) return;
-    if (isSolved) return;
+    if (mistakesRemaining > 0 && !outOfTime) return;
+    if (isSolved || practice) return;
     if (solutionGroups.length !== 4) return;
+    // Let an in-flight guess land first; it may still solve the puzzle.
+    if (isSubmitting) return;
 
-    setDidFail(true);
+    if (mistakesRemaining === 0) {
+      setSnack("Better Luck Next Time!");
+      announce("Out of mistakes. Reveal the solution or keep practicing.");
+      const t1 = window.setTimeout(() => setSnack(null), 2000);
+      const t2 = window.setTimeout(() => setShowFailChoice(true), 2050);
+      return () => {
+        window.clearTimeout(t1);
+        window.clearTimeout(t2);
+      };
+    }
 
-    setSnack("Better Luck Next Time!");
+    setSnack("Out of time!");
+    announce("Out of time. The solution has been revealed.");
     completionJustHappenedRef.current = true;
-    revealSolution();
+    logEvent({ type: "reveal" });
 
     const t1 = window.setTimeout(() => setSnack(null), 2000);
     const t2 = window.setTimeout(() => setShowResults(true), 2050);
@@ -1132,7 +855,11 @@ export default function Solve({
       window.clearTimeout(t2);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mistakesRemaining]);
+  }, [mistakesRemaining, outOfTime, isSubmitting, practice]);
+
+  // Every group found by the player, the last of them in practice.
+  const finishedInPractice =
+    practice && guesses.filter((g) => g.outcome === "correct").length === 4;
 
   // When all 4 groups are solved: brief snackbar, then results overlay.
   useEffect(() => {
@@ -1149,7 +876,7 @@ export default function Solve({
 
     // If the puzzle was auto-solved due to running out of mistakes, still show
     // the results overlay, but don't show the "Nice job!" snackbar.
-    if (didFail) {
+    if (didFail && !finishedInPractice) {
       if (!sessionStorage.getItem("nytResultsAutoOpened")) {
         sessionStorage.setItem("nytResultsAutoOpened", "1");
         setShowResults(true);
@@ -1157,78 +884,115 @@ export default function Solve({
       return;
     }
 
-    setSnack("Nice job!");
+    setSnack(didFail ? "Practice complete!" : "Nice job!");
+    announce(
+      didFail ? "Puzzle finished in practice." : "Puzzle solved. Nice job!",
+    );
     const t1 = window.setTimeout(() => setSnack(null), 2000);
     const t2 = window.setTimeout(() => setShowResults(true), 2050);
     return () => {
       window.clearTimeout(t1);
       window.clearTimeout(t2);
     };
-  }, [groups.length, showResults, resultsDismissed, didFail]);
+  }, [
+    groups.length,
+    showResults,
+    resultsDismissed,
+    didFail,
+    finishedInPractice,
+    announce,
+  ]);
 
   const shuffleUngrouped = () => {
-    setTiles((prev) => {
-      const ungrouped = prev.filter((t) => !groupedTileIds.has(t.id));
-      for (let i = ungrouped.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [ungrouped[i], ungrouped[j]] = [ungrouped[j], ungrouped[i]];
-      }
-      const grouped = prev.filter((t) => groupedTileIds.has(t.id));
-      return [...ungrouped, ...grouped];
-    });
-    clearSelection();
+    const order = game.order.slice();
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    dispatch({ type: "shuffle", order });
   };
 
   const resetAll = () => {
-    setTiles(baseTiles);
-    setGroups([]);
-    clearSelection();
-    setMistakesRemaining(4);
-    setGuesses([]);
-    setGuessedKeys([]);
+    setEvents([]);
+    setEngineStart(null);
+    setHard(loadHardModePreference());
+    setHints([]);
+    setShowHints(false);
+    replaceTimer(freshTimer());
     setSnack(null);
     setShowResults(false);
     setResultsDismissed(false);
-    setDidFail(false);
-    setSelectedOrder([]);
+    setShowFailChoice(false);
+    setPencilMarks({});
+    setMarkMode(false);
   };
 
-  const isDirty = useMemo(() => {
-    // "Dirty" means any user-visible puzzle state changed from the initial loaded puzzle.
-    if (tiles.length !== baseTiles.length) return true;
-    for (let i = 0; i < tiles.length; i++) {
-      if (tiles[i].id !== baseTiles[i].id) return true;
+  // "Dirty" means the player did anything since the puzzle was loaded.
+  const isDirty =
+    events.length > 0 ||
+    engineStart !== null ||
+    hints.length > 0 ||
+    Object.keys(marks).length > 0 ||
+    timer.started ||
+    showResults ||
+    resultsDismissed;
+
+  /* ---------------- keyboard ---------------- */
+
+  const gridRef = useRef<HTMLDivElement | null>(null);
+
+  useKeyboardShortcuts(isActive, (e) => {
+    if (isSubmitting) return false;
+    const target = e.target as HTMLElement | null;
+
+    if (e.key === "Enter") {
+      if (isOtherControl(target)) return false;
+      if (isSolved || selected.size !== 4) return false;
+      onSubmit();
+      return true;
+    }
+    if (e.shiftKey && e.key === "R") {
+      if (isDirty) resetAll();
+      return true;
+    }
+    if (e.shiftKey) return false;
+
+    const key = e.key.toLowerCase();
+    if (key === "s") {
+      shuffleUngrouped();
+      return true;
+    }
+    if (key === "d") {
+      clearSelection();
+      return true;
+    }
+    if (key === "m") {
+      if (!isSolved) setMarkMode((m) => !m);
+      return true;
+    }
+    const colorIndex = ["1", "2", "3", "4"].indexOf(key);
+    if (colorIndex !== -1) {
+      selectMarked(COLORS[colorIndex].key);
+      return true;
+    }
+    // Arrow keys with nothing focused: jump into the grid.
+    if (key.startsWith("arrow") && !target?.closest(".nytGrid")) {
+      gridRef.current?.querySelector<HTMLElement>("button")?.focus();
+      return true;
     }
-    if (groups.length) return true;
-    if (mistakesRemaining !== 4) return true;
-    if (guesses.length) return true;
-    if (guessedKeys.length) return true;
-    if (selected.size) return true;
-    if (selectedOrder.length) return true;
-    if (showResults || resultsDismissed || didFail) return true;
     return false;
-  }, [
-    tiles,
-    baseTiles,
-    groups.length,
-    mistakesRemaining,
-    guesses.length,
-    guessedKeys.length,
-    selected,
-    selectedOrder.length,
-    showResults,
-    resultsDismissed,
-    didFail,
-  ]);
+  });
 
   const closeResults = () => {
     setShowResults(false);
+    setShowReplay(false);
     setResultsDismissed(true);
   };
 
-  const puzzleNumber = nytMeta?.print_date
-    ? connectionsPuzzleNumber(nytMeta.print_date)
-    : null;
+  const puzzleNumber =
+    nytMeta?.print_date && !nytMeta.custom
+      ? connectionsPuzzleNumber(nytMeta.print_date)
+      : null;
 
   const onPickDate = (next: string) => {
     setPickedDate(next);
@@ -1259,10 +1023,15 @@ export default function Solve({
                     {puzzleNumber !== null ? (
                       <div className="nytMetaItem">Puzzle #{puzzleNumber}</div>
                     ) : null}
+                    <DifficultyBadge report={difficulty} />
                     {puzzleNumber !== null ? (
                       <div className="nytMetaDot">•</div>
                     ) : null}
-                    <div className="nytMetaItem">{pickedDate}</div>
+                    <div className="nytMetaItem">
+                      {nytMeta.custom
+                        ? (nytMeta.custom.name ?? "Custom puzzle")
+                        : pickedDate}
+                    </div>
                     <div className="nytMetaDot">•</div>
                     <button
                       className="nytResetText"
@@ -1288,11 +1057,78 @@ export default function Solve({
 
       {/* Sophisticated date picker */}
       <div className="nytDateRow">
-        <DatePicker
-          value={pickedDate}
-          availableDatesAsc={availableDatesAsc}
-          onChange={onPickDate}
-        />
+        {activePack ? (
+          <div
+            className="packNav"
+            role="group"
+            aria-label={`${activePack.name} pack`}
+          >
+            <button
+              className="nytTodayBtn"
+              type="button"
+              onClick={() => loadPackItem(activePack, packIndex - 1)}
+              disabled={packIndex === 0}
+              aria-label="Previous puzzle in pack"
+            >
+              ‹
+            </button>
+            <div className="packNavLabel">
+              <div className="packNavName">{activePack.name}</div>
+              <div className="packNavCount">
+                {packIndex + 1} of {activePack.items.length} · {packWon} solved
+              </div>
+            </div>
+            <button
+              className="nytTodayBtn"
+              type="button"
+              onClick={() => loadPackItem(activePack, packIndex + 1)}
+              disabled={packIndex >= activePack.items.length - 1}
+              aria-label="Next puzzle in pack"
+            >
+              ›
+            </button>
+            <button
+              className="nytTodayBtn"
+              type="button"
+              onClick={() =>
+                nextUnsolved !== null && loadPackItem(activePack, nextUnsolved)
+              }
+              disabled={nextUnsolved === null}
+            >
+              {nextUnsolved === null ? "Pack complete" : "Next unsolved"}
+            </button>
+            <button
+              className="nytTodayBtn"
+              type="button"
+              onClick={leavePack}
+              title="Back to picking puzzles by date"
+            >
+              Leave pack
+            </button>
+          </div>
+        ) : (
+          <DatePicker
+            value={pickedDate}
+            availableDatesAsc={availableDatesAsc}
+            onChange={onPickDate}
+          />
+        )}
+        <button
+          className="nytTodayBtn"
+          type="button"
+          onClick={() => setShowPacks(true)}
+          title="Browse curated puzzle packs"
+        >
+          Packs…
+        </button>
+        <button
+          className="nytTodayBtn"
+          type="button"
+          onClick={() => setShowOpen(true)}
+          title="Open a puzzle file or pasted JSON"
+        >
+          Open…
+        </button>
       </div>
 
       {/* Submitd rows (NO colored enclosing row; only colored tiles) */}
@@ -1317,7 +1153,12 @@ export default function Solve({
             .join(", ");
 
           return (
-            <div key={g.id} className={`nytSolvedBanner ${g.color}`}>
+            <div
+              key={g.id}
+              className={`nytSolvedBanner ${g.color}`}
+              role="group"
+              aria-label={`${colorLabel(g.color)} group`}
+            >
               <div className="nytSolvedBannerTitle">{title}</div>
               <div className="nytSolvedBannerWords">{words}</div>
             </div>
@@ -1325,11 +1166,43 @@ export default function Solve({
         })}
       </section>
 
+      {/* Category titles revealed by hints (until that group is solved) */}
+      {COLORS.some(
+        (c) => hintTitleColors.has(c.key) && !isColorSolved(c.key),
+      ) && (
+        <div className="nytHintTitles" aria-label="Revealed categories">
+          {COLORS.filter(
+            (c) => hintTitleColors.has(c.key) && !isColorSolved(c.key),
+          ).map((c) => (
+            <div key={c.key} className={`nytHintTitle ${c.key}`}>
+              {HINT_EMOJI}{" "}
+              {solutionGroups.find((sg) => sg.color === c.key)?.title}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Main grid */}
       <section className="nytGridWrap">
-        <div className="nytGrid">
+        <div
+          className="nytGrid"
+          ref={gridRef}
+          onKeyDown={onGridArrowKey}
+          role="group"
+          aria-label={`Tiles, ${selectedCount} of 4 selected`}
+        >
           {ungroupedTiles.map((t) => {
             const isSelected = selected.has(t.id);
+            const hintColor = hintTileIds.has(t.id)
+              ? tileIdToColor.get(t.id)
+              : undefined;
+            const mark = marks[t.id];
+            const label =
+              getTileText(t) +
+              (hintColor
+                ? `, hinted ${colorLabel(hintColor).toLowerCase()}`
+                : "") +
+              (mark ? `, marked ${colorLabel(mark).toLowerCase()}` : "");
             return (
               <button
                 key={t.id}
@@ -1340,12 +1213,27 @@ export default function Solve({
                   toggleSelect(t.id);
                 }}
                 aria-pressed={isSelected}
+                aria-label={label}
+                aria-disabled={isSubmitting || undefined}
                 type="button"
-                className={`nytTile ${isImageTile(t) ? "imgTile" : ""}  ${isSelected ? "selected" : ""} ${tileAnim[t.id] ? `anim-${tileAnim[t.id]}` : ""} ${getTileTextSize(
+                className={`nytTile ${isImageTile(t) ? "imgTile" : ""}  ${isSelected ? "selected" : ""} ${markMode ? "marking" : ""} ${tileAnim[t.id] ? `anim-${tileAnim[t.id]}` : ""} ${getTileTextSize(
                   t,
                 )}`}
               >
                 <TileFace tile={t} />
+                {hintColor && (
+                  <span
+                    className={`nytHintDot ${hintColor}`}
+                    title={`Hint: ${hintColor}`}
+                    aria-hidden="true"
+                  />
+                )}
+                {mark && (
+                  <span
+                    className={`nytPencilMark ${mark}`}
+                    aria-hidden="true"
+                  />
+                )}
               </button>
             );
           })}
@@ -1354,7 +1242,65 @@ export default function Solve({
 
       <div className="nytMistakes"></div>
 
-      <MistakesRemaining remaining={mistakesRemaining} />
+      <MistakesRemaining remaining={mistakesRemaining} total={budget} />
+
+      {(!isSolved || (timer.mode !== "off" && timer.started)) && (
+        <div className="nytTimerRow">
+          {guesses.length === 0 && !isSolved ? (
+            <select
+              className="nytModeSelect"
+              aria-label="Difficulty"
+              value={hard ? String(hard.mistakeBudget) : "normal"}
+              onChange={(e) => onHardModeChange(e.target.value)}
+            >
+              <option value="normal">Normal</option>
+              {HARD_MISTAKE_BUDGETS.map((n) => (
+                <option key={n} value={String(n)}>
+                  Hard, {n} mistake{n === 1 ? "" : "s"}
+                </option>
+              ))}
+            </select>
+          ) : (
+            hard && <div className="nytModeBadge">{HARD_EMOJI} Hard mode</div>
+          )}
+          {practice && !isSolved && (
+            <div className="nytModeBadge" title="Guesses now don't count">
+              Practice
+            </div>
+          )}
+          {timer.mode !== "off" && (
+            <div className="nytTimer">
+              {timer.mode === "speedrun" ? "Time Left: " : "Time: "}
+              <span className="nytTimerClock">
+                {formatClock(
+                  timer.mode === "speedrun"
+                    ? timer.limitMs - timer.elapsedMs
+                    : timer.elapsedMs,
+                )}
+              </span>
+              {timer.started && !timerRunning && !isSolved && (
+                <span className="nytTimerPaused"> (paused)</span>
+              )}
+            </div>
+          )}
+          {!timer.started && !isSolved && (
+            <select
+              className="nytTimerSelect"
+              aria-label="Timer"
+              value={timerOptionValue(timer)}
+              onChange={(e) => onTimerOptionChange(e.target.value)}
+            >
+              <option value="off">No timer</option>
+              <option value="timed">Timed</option>
+              {SPEEDRUN_LIMITS_MS.map((ms) => (
+                <option key={ms} value={`speedrun:${ms}`}>
+                  Speedrun {formatClock(ms)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
 
       <section className="nytControls">
         <button
@@ -1380,13 +1326,36 @@ export default function Solve({
           Deselect All
         </button>
 
+        {practice && !isSolved ? (
+          <button
+            className="pillBtn"
+            onClick={revealSolution}
+            disabled={isSubmitting}
+            type="button"
+          >
+            Reveal
+          </button>
+        ) : (
+          <button
+            className="pillBtn"
+            onClick={() => setShowHints(true)}
+            disabled={!hintsAvailable}
+            type="button"
+          >
+            Hint
+          </button>
+        )}
+
         <button
           className="pillBtn primary"
           onClick={isSolved ? copyResults : onSubmit}
           disabled={
             isSolved
               ? false
-              : isSubmitting || selected.size !== 4 || mistakesRemaining <= 0
+              : isSubmitting ||
+                selected.size !== 4 ||
+                (mistakesRemaining <= 0 && !practice) ||
+                outOfTime
           }
           type="button"
         >
@@ -1394,11 +1363,200 @@ export default function Solve({
         </button>
       </section>
 
+      {!isSolved && (
+        <section className="nytPencilRow" aria-label="Pencil marks">
+          <button
+            className={`pillBtn nytColorToggle ${markMode ? "active" : ""}`}
+            onClick={() => setMarkMode((m) => !m)}
+            aria-pressed={markMode}
+            title="Tap tiles to cycle a tentative color (M)"
+            type="button"
+          >
+            {markMode ? "Marking…" : "Mark"}
+          </button>
+          {COLORS.map((c, i) => {
+            const count = markedTileIds(c.key).length;
+            return (
+              <button
+                key={c.key}
+                className={`colorPill ${c.key} nytInlineColorPill`}
+                onClick={() => selectMarked(c.key)}
+                disabled={isSubmitting || count === 0 || count > 4 || outOfTime}
+                aria-label={`Select the tiles marked ${colorLabel(c.key).toLowerCase()} (${count})`}
+                title={`Select marked tiles (${i + 1})`}
+                type="button"
+              >
+                {count}
+              </button>
+            );
+          })}
+          <button
+            className="pillBtn"
+            onClick={clearMarks}
+            disabled={Object.keys(marks).length === 0}
+            type="button"
+          >
+            Clear marks
+          </button>
+        </section>
+      )}
+
       {snack && (
-        <div className="nytSnack" role="status">
+        <div className="nytSnack" aria-hidden="true">
           {snack}
         </div>
       )}
+      {showOpen && (
+        <OpenPuzzleModal
+          onOpen={(puzzle) => {
+            leavePack();
+            loadPuzzle("opened puzzle", async () => puzzle);
+          }}
+          onClose={() => setShowOpen(false)}
+        />
+      )}
+      {showPacks && (
+        <PacksModal
+          activePackId={activePack?.id ?? null}
+          onChoose={(pack) => {
+            setShowPacks(false);
+            if (pack.id === activePack?.id) return;
+            // Start at the first puzzle not yet won or failed.
+            packProgress(pack).then((p) =>
+              loadPackItem(pack, nextUnsolvedIndex(p.statuses, -1) ?? 0),
+            );
+          }}
+          onClose={() => setShowPacks(false)}
+        />
+      )}
+      <LiveRegion message={announcement} />
+
+      {showFailChoice && (
+        <div className="modalOverlay">
+          <div
+            className="modal"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Out of mistakes"
+          >
+            <div className="modalTitle">Out of mistakes</div>
+            <div className="modalBody">
+              <p className="modalFinePrint">
+                This puzzle counts as a loss either way. Keep practicing to find
+                the remaining groups yourself: further guesses are marked as
+                practice in your results, share text and stats, and the Reveal
+                button shows the solution whenever you like.
+              </p>
+              <div className="modalActions">
+                <button
+                  className="pillBtn"
+                  type="button"
+                  onClick={keepPracticing}
+                >
+                  Keep practicing
+                </button>
+                <button
+                  className="pillBtn primary"
+                  type="button"
+                  onClick={revealSolution}
+                >
+                  Reveal solution
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showHints && (
+        <div className="modalOverlay" onClick={() => setShowHints(false)}>
+          <div
+            className="modal"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Hints"
+          >
+            <div className="modalTitle">Hints</div>
+
+            <div className="modalBody">
+              <p className="modalFinePrint">
+                Hints are recorded and shown with your results ({HINT_EMOJI}).
+                {hints.length > 0
+                  ? ` Used so far: ${hints.length}.`
+                  : " None used yet."}
+              </p>
+
+              <div className="statsSectionTitle">Check my selection</div>
+              <div className="modalActions">
+                <button
+                  className="pillBtn"
+                  type="button"
+                  onClick={takePairHint}
+                  disabled={selected.size !== 4}
+                  title={
+                    selected.size === 4
+                      ? "Do any two selected tiles share a group?"
+                      : "Select 4 tiles first"
+                  }
+                >
+                  Any pair in my 4?
+                </button>
+              </div>
+
+              <div className="statsSectionTitle">Reveal a category</div>
+              <div className="nytHintColors">
+                {COLORS.map((c) => {
+                  const disabled =
+                    isColorSolved(c.key) || hintTitleColors.has(c.key);
+                  return (
+                    <button
+                      key={c.key}
+                      type="button"
+                      className={`colorPill ${c.key}`}
+                      onClick={() => takeTitleHint(c.key)}
+                      disabled={disabled}
+                      aria-disabled={disabled}
+                    >
+                      {c.label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="statsSectionTitle">Reveal a tile</div>
+              <div className="nytHintColors">
+                {COLORS.map((c) => {
+                  const disabled =
+                    isColorSolved(c.key) ||
+                    tileHintCandidates(solutionGroups, c.key, hints).length ===
+                      0;
+                  return (
+                    <button
+                      key={c.key}
+                      type="button"
+                      className={`colorPill ${c.key}`}
+                      onClick={() => takeTileHint(c.key)}
+                      disabled={disabled}
+                      aria-disabled={disabled}
+                    >
+                      {c.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <button
+              className="pillBtn full"
+              type="button"
+              onClick={() => setShowHints(false)}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
 
       {showResults && (
         <div className="nytResultsOverlay" role="dialog" aria-label="Results">
@@ -1425,16 +1583,108 @@ export default function Solve({
               {didFail ? "Better Luck Next Time!" : "Great!"}
             </div>
 
-            <div className="nytResultsGrid" aria-label="Results grid">
-              {guesses.map((g) => (
-                <div key={g.id} className="nytResultsRow">
+            {hard && (
+              <div className="nytResultsMode">
+                {HARD_EMOJI} Hard mode · {hard.mistakeBudget} mistake
+                {hard.mistakeBudget === 1 ? "" : "s"} allowed
+              </div>
+            )}
+
+            {practice && (
+              <div className="nytResultsMode">
+                {finishedInPractice
+                  ? "Finished in practice after running out of mistakes"
+                  : "Practiced on after running out of mistakes"}
+              </div>
+            )}
+
+            {timer.mode !== "off" && timer.started && (
+              <div className="nytResultsTime">
+                {TIMER_EMOJI} {formatClock(timer.elapsedMs)}
+                {timer.mode === "speedrun" &&
+                  ` of ${formatClock(timer.limitMs)}${outOfTime ? " (out of time)" : ""}`}
+              </div>
+            )}
+
+            <div className="nytResultsGrid" aria-hidden="true">
+              {guesses.map((g, row) => (
+                <div
+                  key={g.id}
+                  className={`nytResultsRow ${g.postFail ? "postFail" : ""}`}
+                >
                   {g.colors.map((c, i) => (
                     <span key={i} className={`nytResultsSq ${c}`} />
                   ))}
+                  {hintedRows[row] && (
+                    <span className="nytResultsHint" title="Hint used">
+                      {HINT_EMOJI}
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
 
+            {hints.length > 0 && (
+              <div className="nytResultsHints">
+                <div className="nytResultsHintsTitle">
+                  {HINT_EMOJI} {hints.length} hint
+                  {hints.length === 1 ? "" : "s"} used
+                </div>
+                <ul>
+                  {hints.map((h, i) => (
+                    <li key={i}>{describeHint(h)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {showReplay ? (
+              <SolveReplay
+                rules={rules}
+                events={events}
+                start={engineStart}
+                tilesById={baseTilesById}
+                onClose={() => setShowReplay(false)}
+              />
+            ) : (
+              events.length > 0 && (
+                <button
+                  type="button"
+                  className="pillBtn full replayOpen"
+                  onClick={() => setShowReplay(true)}
+                >
+                  Watch replay
+                </button>
+              )
+            )}
+
+            {guesses.length > 0 && (
+              <div className="nytResultsReview">
+                <div className="nytResultsHintsTitle">Your guesses</div>
+                <ol aria-label="Your guesses">
+                  {guesses.map((g, row) => (
+                    <li key={g.id} className="nytReviewRow">
+                      <span className="nytReviewSquares" aria-hidden="true">
+                        {g.colors.map((c, i) => (
+                          <span key={i} className={`nytResultsSq ${c}`} />
+                        ))}
+                      </span>
+                      <span className="srOnly">
+                        {guessRowText(g.colors, row, hintedRows[row])}
+                      </span>
+                      <span className="nytReviewWords">
+                        {guessWords(g)?.join(", ") ?? "Words not recorded"}
+                      </span>
+                      <span className={`nytReviewOutcome ${g.outcome}`}>
+                        {GUESS_OUTCOME_LABELS[g.outcome]}
+                        {g.postFail && " · practice"}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <button
               type="button"
               className="nytResultsShare"
@@ -1442,6 +1692,19 @@ export default function Solve({
             >
               Share Your Results
             </button>
+
+            {activePack && nextUnsolved !== null && (
+              <button
+                type="button"
+                className="pillBtn full"
+                onClick={() => {
+                  closeResults();
+                  loadPackItem(activePack, nextUnsolved);
+                }}
+              >
+                Next unsolved in {activePack.name}
+              </button>
+            )}
           </div>
         </div>
       )}
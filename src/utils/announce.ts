@@ -0,0 +1,13 @@
+import { useCallback, useState } from "react";
+
+/**
+ * Message for a screen-reader live region (see `LiveRegion`). Repeating the
+ * same text toggles a trailing no-break space so it is announced again.
+ */
+export function useAnnouncer(): [string, (text: string) => void] {
+  const [message, setMessage] = useState({ text: "", n: 0 });
+  const announce = useCallback((text: string) => {
+    setMessage((m) => ({ text, n: m.n + 1 }));
+  }, []);
+  return [message.text + (message.n % 2 ? "\u00a0" : ""), announce];
+}
@@ -1,32 +1,196 @@
-type CacheEntry = {
+import {
+  clearPuzzleCache,
+  readCachedJson,
+  writeCachedResponse,
+} from "../offline/cache";
+import type { CachedJson } from "../offline/cache";
+import { fmtLocalYYYYMMDD } from "../puzzle/dates";
+
+/**
+ * Tiered JSON cache: memory → Cache Storage (the offline puzzle cache) →
+ * network. How each URL moves through the tiers is decided by its policy:
+ *
+ * - "immutable": past dated puzzles (nyt/YYYY-MM-DD.json). Once published
+ *   they never change, so any cached copy is used without touching the network.
+ * - "stale-while-revalidate": latest.json, index.json, available-dates.json,
+ *   packs.json, catalog.json and today's/future dated files. A cached copy is
+ *   returned at once and refreshed in the background.
+ * - "network-first": anything else. A fresh memory copy is used; otherwise the
+ *   network, falling back to the stored copy when offline.
+ *
+ * Network requests are conditional (If-None-Match / If-Modified-Since) when a
+ * copy is already stored, so an unchanged file costs a 304 and no body.
+ */
+export type CachePolicy =
+  "immutable" | "stale-while-revalidate" | "network-first";
+
+type CacheEntry = CachedJson & {
   timestamp: number;
-  data: unknown;
+};
+
+export type FetchJsonCacheStats = {
+  memoryHits: number;
+  persistentHits: number;
+  networkFetches: number;
+  notModified: number; // 304s: a stored copy was confirmed current
+  backgroundRevalidations: number;
+  offlineFallbacks: number;
+  errors: number;
+  memoryEntries: number;
 };
 
 const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000;
 
+const DATED_FILE_RE = /\/nyt\/(\d{4}-\d{2}-\d{2})\.json(?:\?|$)/;
+const INDEX_FILE_RE =
+  /\/nyt\/(?:latest|index|available-dates|packs|catalog)\.json(?:\?|$)/;
+
 // Shared module-level cache across ALL tabs/components.
 const cache = new Map<string, CacheEntry>();
 
 // Optional: dedupe concurrent requests for same URL.
 const inFlight = new Map<string, Promise<unknown>>();
 
+// URLs with a background revalidation running.
+const revalidating = new Set<string>();
+
+const stats: Omit<FetchJsonCacheStats, "memoryEntries"> = {
+  memoryHits: 0,
+  persistentHits: 0,
+  networkFetches: 0,
+  notModified: 0,
+  backgroundRevalidations: 0,
+  offlineFallbacks: 0,
+  errors: 0,
+};
+
+export function cachePolicyFor(url: string): CachePolicy {
+  const dated = DATED_FILE_RE.exec(url);
+  if (dated) {
+    // Today's (and any future) puzzle can still be corrected upstream.
+    return dated[1] < fmtLocalYYYYMMDD(new Date())
+      ? "immutable"
+      : "stale-while-revalidate";
+  }
+  if (INDEX_FILE_RE.test(url)) return "stale-while-revalidate";
+  return "network-first";
+}
+
+function remember(url: string, stored: CachedJson) {
+  cache.set(url, { ...stored, timestamp: Date.now() });
+}
+
+function conditionalHeaders(stored: CachedJson | undefined) {
+  const headers: Record<string, string> = {};
+  if (stored?.etag) headers["If-None-Match"] = stored.etag;
+  if (stored?.lastModified) headers["If-Modified-Since"] = stored.lastModified;
+  return headers;
+}
+
+/**
+ * Fetch `url`, revalidating `stored` if given. Stores a changed response in
+ * both tiers. Falls back to `stored` if the network is unreachable.
+ */
+async function fromNetwork(
+  url: string,
+  stored: CachedJson | undefined,
+): Promise<unknown> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      cache: "no-store",
+      headers: conditionalHeaders(stored),
+    });
+    stats.networkFetches++;
+  } catch (e) {
+    if (!stored) {
+      stats.errors++;
+      throw e;
+    }
+    stats.offlineFallbacks++;
+    remember(url, stored);
+    return stored.data;
+  }
+
+  if (res.status === 304 && stored) {
+    stats.notModified++;
+    remember(url, stored);
+    return stored.data;
+  }
+  if (!res.ok) {
+    stats.errors++;
+    throw new Error(`HTTP ${res.status} for ${url}`);
+  }
+
+  const data: unknown = await res.clone().json();
+  remember(url, {
+    data,
+    etag: res.headers.get("ETag"),
+    lastModified: res.headers.get("Last-Modified"),
+  });
+  await writeCachedResponse(url, res);
+  return data;
+}
+
+function revalidateInBackground(url: string, stored: CachedJson) {
+  if (revalidating.has(url)) return;
+  revalidating.add(url);
+  stats.backgroundRevalidations++;
+  fromNetwork(url, stored)
+    .catch(() => {
+      // ignore; the stale copy stays in use
+    })
+    .finally(() => revalidating.delete(url));
+}
+
+async function load(
+  url: string,
+  policy: CachePolicy,
+  stale: CacheEntry | undefined,
+): Promise<unknown> {
+  let stored: CachedJson | undefined = stale;
+  if (!stored) {
+    const persisted = await readCachedJson(url);
+    if (persisted && policy !== "network-first") {
+      stats.persistentHits++;
+      remember(url, persisted);
+      if (policy === "stale-while-revalidate")
+        revalidateInBackground(url, persisted);
+      return persisted.data;
+    }
+    stored = persisted;
+  }
+  return fromNetwork(url, stored);
+}
+
 /**
  * fetchJsonCached
- * Fetch JSON and cache the parsed result in-memory for maxAgeMs (default: 60 minutes).
- * If cached value is fresh, returns it immediately.
+ * Fetch JSON through the tiered cache (see CachePolicy). Memory copies count
+ * as fresh for maxAgeMs (default: 60 minutes); after that a
+ * stale-while-revalidate URL is still served from memory while it refreshes,
+ * and a network-first URL is revalidated before returning. Immutable copies
+ * never expire.
  * If a request is already in-flight for the same URL, returns the same Promise.
  */
 export async function fetchJsonCached<T>(
   url: string,
-  opts?: { maxAgeMs?: number }
+  opts?: { maxAgeMs?: number },
 ): Promise<T> {
   const maxAgeMs = opts?.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
-  const now = Date.now();
+  const policy = cachePolicyFor(url);
 
   const cached = cache.get(url);
-  if (cached && now - cached.timestamp < maxAgeMs) {
-    return cached.data as T;
+  if (cached) {
+    const fresh = Date.now() - cached.timestamp < maxAgeMs;
+    if (fresh || policy === "immutable") {
+      stats.memoryHits++;
+      return cached.data as T;
+    }
+    if (policy === "stale-while-revalidate") {
+      stats.memoryHits++;
+      revalidateInBackground(url, cached);
+      return cached.data as T;
+    }
   }
 
   const existing = inFlight.get(url);
@@ -34,27 +198,50 @@ export async function fetchJsonCached<T>(
     return existing as Promise<T>;
   }
 
-  const p = (async () => {
-    const res = await fetch(url, { cache: "no-store" });
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status} for ${url}`);
-    }
-    const data = (await res.json()) as T;
-    cache.set(url, { timestamp: Date.now(), data });
-    return data;
-  })();
-
-  inFlight.set(url, p as Promise<unknown>);
+  const p = load(url, policy, cached);
+  inFlight.set(url, p);
 
   try {
-    return await (p as Promise<T>);
+    return (await p) as T;
   } finally {
     inFlight.delete(url);
   }
 }
 
-/** Clear the shared cache (useful for debugging / dev tools) */
-export function clearFetchJsonCache() {
+/**
+ * Clear the shared in-memory cache (useful for debugging / dev tools).
+ * With `persistent: true` the stored puzzle files go too, offline archive
+ * included.
+ */
+export async function clearFetchJsonCache(opts?: { persistent?: boolean }) {
   cache.clear();
   inFlight.clear();
+  revalidating.clear();
+  if (opts?.persistent) await clearPuzzleCache();
+}
+
+/** Hit/miss counters since page load. */
+export function getFetchJsonCacheStats(): FetchJsonCacheStats {
+  return { ...stats, memoryEntries: cache.size };
+}
+
+/* ---------------- debug API ---------------- */
+
+// From the browser console: __fetchJsonCache.stats(), .clear({ persistent: true })
+declare global {
+  interface Window {
+    __fetchJsonCache?: {
+      stats: typeof getFetchJsonCacheStats;
+      clear: typeof clearFetchJsonCache;
+      policy: typeof cachePolicyFor;
+    };
+  }
+}
+
+if (typeof window !== "undefined") {
+  window.__fetchJsonCache = {
+    stats: getFetchJsonCacheStats,
+    clear: clearFetchJsonCache,
+    policy: cachePolicyFor,
+  };
 }
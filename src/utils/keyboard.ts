@@ -0,0 +1,123 @@
+import { useEffect, useRef } from "react";
+import type { KeyboardEvent as ReactKeyboardEvent } from "react";
+
+/**
+ * Keyboard play shared by the tabs. Each tab registers its shortcuts with
+ * `useKeyboardShortcuts` while it is the active panel; the help modal renders
+ * `KEYBOARD_SHORTCUTS` as its shortcut sheet.
+ */
+
+const GRID_COLS = 4;
+
+export type ShortcutEntry = {
+  keys: string[];
+  action: string;
+  where: string;
+};
+
+export const KEYBOARD_SHORTCUTS: ShortcutEntry[] = [
+  {
+    keys: ["←", "↑", "→", "↓"],
+    action: "Move between tiles",
+    where: "Click, Solve",
+  },
+  {
+    keys: ["Space"],
+    action: "Select / deselect the focused tile",
+    where: "All",
+  },
+  { keys: ["Enter"], action: "Submit the selected four", where: "Solve" },
+  { keys: ["S"], action: "Shuffle", where: "Click, Solve" },
+  { keys: ["D"], action: "Deselect all", where: "All" },
+  { keys: ["Shift", "R"], action: "Reset the puzzle", where: "All" },
+  {
+    keys: ["1", "2", "3", "4"],
+    action: "Color the selection yellow / green / blue / purple",
+    where: "Click, Drag",
+  },
+  { keys: ["C"], action: "Toggle color mode", where: "Drag" },
+  { keys: ["M"], action: "Toggle pencil marks", where: "Solve" },
+  {
+    keys: ["1", "2", "3", "4"],
+    action: "Select the tiles marked yellow / green / blue / purple",
+    where: "Solve",
+  },
+  {
+    keys: ["←", "↑", "→", "↓"],
+    action: "Nudge the focused tile (hold Shift for a full tile)",
+    where: "Drag",
+  },
+  { keys: ["?"], action: "Open help", where: "All" },
+];
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return Boolean(target.closest("input, textarea, select"));
+}
+
+/**
+ * True for buttons/links outside the tile grids, where Enter and Space keep
+ * their native meaning instead of triggering a shortcut.
+ */
+export function isOtherControl(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.closest(".nytGrid, .nytFreeBoard")) return false;
+  return Boolean(target.closest("button, a, [role='button']"));
+}
+
+/** Index reached from `index` by an arrow key in a row-major grid, or null. */
+export function gridArrowTarget(
+  index: number,
+  key: string,
+  count: number,
+  cols = GRID_COLS,
+): number | null {
+  let next: number;
+  if (key === "ArrowLeft") next = index - 1;
+  else if (key === "ArrowRight") next = index + 1;
+  else if (key === "ArrowUp") next = index - cols;
+  else if (key === "ArrowDown") next = index + cols;
+  else return null;
+  return next >= 0 && next < count ? next : null;
+}
+
+/** onKeyDown for a `.nytGrid`: arrow keys move focus between its tiles. */
+export function onGridArrowKey(e: ReactKeyboardEvent<HTMLElement>) {
+  const items = Array.from(e.currentTarget.children) as HTMLElement[];
+  const index = items.findIndex((el) => el.contains(e.target as Node));
+  if (index === -1) return;
+  const next = gridArrowTarget(index, e.key, items.length);
+  if (next === null) return;
+  e.preventDefault();
+  items[next].focus();
+}
+
+/**
+ * Window-level shortcuts, registered only while `enabled` (e.g. the tab is
+ * active). The handler returns true when it consumed the key. Keys typed into
+ * form fields, chords with Ctrl/Meta/Alt and keys pressed while a dialog is
+ * open are left alone.
+ */
+export function useKeyboardShortcuts(
+  enabled: boolean,
+  handler: (e: KeyboardEvent) => boolean,
+) {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+      if (document.querySelector("[role='dialog']")) return;
+      if (handlerRef.current(e)) e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
@@ -1,31 +1,265 @@
-export function getCookie(name: string): string | null {
-  const match = document.cookie.match(
-    new RegExp(
-      "(^|; )" + name.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&") + "=([^;]*)",
-    ),
-  );
-  return match ? decodeURIComponent(match[2]) : null;
+/**
+ * Versioned localStorage persistence shared by every tab.
+ *
+ * Each per-puzzle record lives under
+ *   connections-playground::v2::<store>::<YYYY-MM-DD>
+ * wrapped in an envelope `{ v, savedAt, data }`. Custom and opened puzzles use
+ * a content key (`custom-<hash>`, `file-<hash>`) in place of the date;
+ * listRecords skips them, so stats and progress export only see archive
+ * puzzles.
+ *
+ * Older builds kept progress in `cp_*` cookies and unversioned localStorage
+ * keys; those are migrated (and removed) the first time this module is used.
+ */
+
+export const STORAGE_SCHEMA_VERSION = 2;
+
+/** Per-print-date stores, one per kind of saved progress. */
+export type StoreName = "solve" | "click" | "drag" | "dragPos";
+
+export type StoredRecord<T> = {
+  printDate: string;
+  savedAt: number; // ms since epoch
+  data: T;
+};
+
+type Envelope<T> = {
+  v: number;
+  savedAt: number;
+  data: T;
+};
+
+const PREFIX = "connections-playground";
+const SCHEMA_KEY = `${PREFIX}::schema`;
+const YMD_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function recordKey(store: StoreName, printDate: string) {
+  return `${PREFIX}::v${STORAGE_SCHEMA_VERSION}::${store}::${printDate}`;
+}
+
+function settingKey(name: string) {
+  return `${PREFIX}::v${STORAGE_SCHEMA_VERSION}::setting::${name}`;
+}
+
+function parseEnvelope<T>(raw: string | null): Envelope<T> | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<Envelope<T>>;
+    if (!parsed || typeof parsed !== "object") return null;
+    if (parsed.v !== STORAGE_SCHEMA_VERSION || !("data" in parsed)) return null;
+    return {
+      v: parsed.v,
+      savedAt: typeof parsed.savedAt === "number" ? parsed.savedAt : 0,
+      data: parsed.data as T,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/* ---------------- records ---------------- */
+
+export function readRecord<T>(
+  store: StoreName,
+  printDate: string,
+): StoredRecord<T> | null {
+  ensureMigrated();
+  try {
+    const env = parseEnvelope<T>(
+      localStorage.getItem(recordKey(store, printDate)),
+    );
+    return env ? { printDate, savedAt: env.savedAt, data: env.data } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeRecord<T>(
+  store: StoreName,
+  printDate: string,
+  data: T,
+  savedAt = Date.now(),
+) {
+  ensureMigrated();
+  try {
+    const key = recordKey(store, printDate);
+    // Re-saving identical data (e.g. just viewing a puzzle) keeps the old
+    // savedAt, so it doesn't look "newer" than real progress elsewhere.
+    const existing = parseEnvelope<T>(localStorage.getItem(key));
+    if (existing && JSON.stringify(existing.data) === JSON.stringify(data))
+      return;
+    const env: Envelope<T> = { v: STORAGE_SCHEMA_VERSION, savedAt, data };
+    localStorage.setItem(key, JSON.stringify(env));
+  } catch {
+    // ignore (private mode / quota)
+  }
+}
+
+export function removeRecord(store: StoreName, printDate: string) {
+  try {
+    localStorage.removeItem(recordKey(store, printDate));
+  } catch {
+    // ignore
+  }
+}
+
+/** Every record in a store, oldest print date first. */
+export function listRecords<T>(store: StoreName): StoredRecord<T>[] {
+  ensureMigrated();
+  const out: StoredRecord<T>[] = [];
+  const prefix = recordKey(store, "");
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key || !key.startsWith(prefix)) continue;
+      const printDate = key.slice(prefix.length);
+      if (!YMD_RE.test(printDate)) continue;
+      const env = parseEnvelope<T>(localStorage.getItem(key));
+      if (env) out.push({ printDate, savedAt: env.savedAt, data: env.data });
+    }
+  } catch {
+    // ignore
+  }
+  return out.sort((a, b) => a.printDate.localeCompare(b.printDate));
 }
 
-export function setCookie(name: string, value: string) {
-  // 1 year, Lax, root path
-  document.cookie = `${name}=${encodeURIComponent(value)}; Max-Age=31536000; Path=/; SameSite=Lax`;
+/* ---------------- settings (not tied to a puzzle) ---------------- */
+
+export function getSetting(name: string): string | null {
+  ensureMigrated();
+  try {
+    return localStorage.getItem(settingKey(name));
+  } catch {
+    return null;
+  }
 }
 
-export function getJsonCookie<T>(name: string, fallback: T): T {
+export function setSetting(name: string, value: string) {
+  ensureMigrated();
   try {
-    const raw = getCookie(name);
-    if (!raw) return fallback;
-    return JSON.parse(raw) as T;
+    localStorage.setItem(settingKey(name), value);
   } catch {
-    return fallback;
+    // ignore
   }
 }
 
-export function setJsonCookie(name: string, value: unknown) {
+/* ---------------- migration from cookies / unversioned keys ---------------- */
+
+function readAllCookies(): Map<string, string> {
+  const out = new Map<string, string>();
   try {
-    setCookie(name, JSON.stringify(value));
+    for (const part of document.cookie.split(";")) {
+      const trimmed = part.trim();
+      const idx = trimmed.indexOf("=");
+      if (idx === -1) continue;
+      try {
+        out.set(
+          trimmed.slice(0, idx),
+          decodeURIComponent(trimmed.slice(idx + 1)),
+        );
+      } catch {
+        // ignore undecodable values
+      }
+    }
   } catch {
     // ignore
   }
+  return out;
+}
+
+function deleteCookie(name: string) {
+  document.cookie = `${name}=; Max-Age=0; Path=/; SameSite=Lax`;
+}
+
+function parseJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** Copy a legacy value into the v2 store unless a v2 record already exists. */
+function migrateValue(store: StoreName, printDate: string, value: unknown) {
+  if (!value || typeof value !== "object") return;
+  if (localStorage.getItem(recordKey(store, printDate)) !== null) return;
+  const env: Envelope<unknown> = {
+    v: STORAGE_SCHEMA_VERSION,
+    savedAt: 0, // unknown; any real save wins a "keep newer" merge
+    data: value,
+  };
+  localStorage.setItem(recordKey(store, printDate), JSON.stringify(env));
+}
+
+const LEGACY_COOKIES: Array<{ prefix: string; store: StoreName }> = [
+  { prefix: "cp_solve_", store: "solve" }, // SavedSolveState v:1
+  { prefix: "cp_click_groups_", store: "click" },
+  { prefix: "cp_drag_state_", store: "drag" },
+];
+
+const LEGACY_LOCAL_KEYS: Array<{ re: RegExp; store: StoreName }> = [
+  {
+    re: /^connections-playground::click::(\d{4}-\d{2}-\d{2})$/,
+    store: "click",
+  },
+  { re: /^connections-playground::drag::(\d{4}-\d{2}-\d{2})$/, store: "drag" },
+  {
+    re: /^connections-playground::(\d{4}-\d{2}-\d{2})::dragPos$/,
+    store: "dragPos",
+  },
+];
+
+function migrateLegacyStorage() {
+  // Cookies were the source of truth in v1, so they go first.
+  for (const [name, value] of readAllCookies()) {
+    if (name === "cp_active_tab") {
+      if (localStorage.getItem(settingKey("activeTab")) === null)
+        localStorage.setItem(settingKey("activeTab"), value);
+      deleteCookie(name);
+      continue;
+    }
+
+    const legacy = LEGACY_COOKIES.find((l) => name.startsWith(l.prefix));
+    if (!legacy) continue;
+    const printDate = name.slice(legacy.prefix.length);
+    if (YMD_RE.test(printDate)) {
+      const parsed = parseJson(value);
+      if (parsed && typeof parsed === "object") {
+        // Drop the v1 marker; the envelope carries the version now.
+        delete (parsed as { v?: unknown }).v;
+      }
+      migrateValue(legacy.store, printDate, parsed);
+    }
+    deleteCookie(name);
+  }
+
+  const legacyKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && LEGACY_LOCAL_KEYS.some((l) => l.re.test(key)))
+      legacyKeys.push(key);
+  }
+  for (const key of legacyKeys) {
+    for (const { re, store } of LEGACY_LOCAL_KEYS) {
+      const m = key.match(re);
+      if (m) migrateValue(store, m[1], parseJson(localStorage.getItem(key)));
+    }
+    localStorage.removeItem(key);
+  }
+}
+
+let migrated = false;
+
+function ensureMigrated() {
+  if (migrated) return;
+  migrated = true;
+  try {
+    const current = Number(localStorage.getItem(SCHEMA_KEY) ?? 0);
+    if (current >= STORAGE_SCHEMA_VERSION) return;
+    migrateLegacyStorage();
+    localStorage.setItem(SCHEMA_KEY, String(STORAGE_SCHEMA_VERSION));
+  } catch {
+    // storage unavailable; reads/writes degrade to no-ops
+  }
 }